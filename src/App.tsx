@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { StudioView } from './components/StudioView';
+import { useAudioEngine } from './hooks/useAudioEngine';
 import './App.css';
 
 const initialAppState = {
@@ -29,6 +30,11 @@ const initialAppState = {
   activeScene: 0
 };
 
+// Shortcuts stay out of the way while typing in a form field or editor
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 function App() {
   const [appState, setAppState] = useState(initialAppState);
 
@@ -36,9 +42,17 @@ function App() {
     setAppState(prev => ({ ...prev, ...newState }));
   };
 
+  const audioEngine = useAudioEngine({
+    // Tab sharing can be stopped from the browser UI at any time
+    onSourceEnded: () => handleStateChange({ isPlaying: false })
+  });
+  const { tapTempo, toggleTempoLock, adjustTempoLock, nudgeBeat, resyncBeat } = audioEngine;
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
+      if (isEditable(event.target)) return;
+
       switch (event.code) {
         case 'Space':
           event.preventDefault();
@@ -58,6 +72,28 @@ function App() {
                              appState.codeOverlay === 'minimal' ? 'full' : 'off';
           handleStateChange({ codeOverlay: nextOverlay });
           break;
+        // Beat clock overrides
+        case 'KeyT':
+          tapTempo();
+          break;
+        case 'KeyL':
+          toggleTempoLock();
+          break;
+        case 'Minus':
+          adjustTempoLock(event.shiftKey ? -0.1 : -1);
+          break;
+        case 'Equal':
+          adjustTempoLock(event.shiftKey ? 0.1 : 1);
+          break;
+        case 'BracketLeft':
+          nudgeBeat(event.shiftKey ? -0.1 : -0.02);
+          break;
+        case 'BracketRight':
+          nudgeBeat(event.shiftKey ? 0.1 : 0.02);
+          break;
+        case 'KeyD':
+          resyncBeat();
+          break;
         case 'Digit1':
           handleStateChange({ mode: 'live' });
           break;
@@ -75,7 +111,7 @@ function App() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [appState.isPlaying, appState.isFullscreen, appState.codeOverlay]);
+  }, [appState.isPlaying, appState.isFullscreen, appState.codeOverlay, tapTempo, toggleTempoLock, adjustTempoLock, nudgeBeat, resyncBeat]);
 
   return (
     <div className="app">
@@ -88,6 +124,7 @@ function App() {
         <StudioView 
           appState={appState} 
           onStateChange={handleStateChange} 
+          audioEngine={audioEngine}
         />
       </main>
       
@@ -97,6 +134,11 @@ function App() {
           <span>F: フルスクリーン</span>
           <span>C: コード表示切替</span>
           <span>1-4: モード切替</span>
+          <span>T: タップテンポ</span>
+          <span>L: BPMロック</span>
+          <span>-/=: BPM調整</span>
+          <span>[/]: 位相ナッジ</span>
+          <span>D: ダウンビート</span>
         </div>
       </footer>
     </div>
@@ -0,0 +1,185 @@
+import { FrameAnalyzer, ANALYSIS_PROCESSOR_NAME, applyAnalysisMessage } from './FrameAnalyzer';
+import type { AnalysisProcessorMessage } from './FrameAnalyzer';
+import type { AnalysisFrame } from './AnalysisFrame';
+
+export interface AnalysisChannelOptions {
+  fftSize: number;
+  hopSize: number;
+  historySeconds: number;
+  useWorklet: boolean; // analysis processor module already added to the context
+  onFrame?: (frame: AnalysisFrame) => void; // called before the frame is stored
+}
+
+// One analysis chain: whatever is connected to `input` is analysed by the
+// AudioWorklet at a fixed hop, or on demand on the main thread as a fallback,
+// and produces its own AnalysisFrame stream.
+export class AnalysisChannel {
+  readonly input: GainNode;
+  private context: AudioContext;
+  private analyser: AnalyserNode;
+  private channelAnalysers: AnalyserNode[];
+  private splitter: ChannelSplitterNode;
+  private analyzer: FrameAnalyzer;
+  private node: AudioWorkletNode | null = null;
+  private historySeconds: number;
+  private onFrame?: (frame: AnalysisFrame) => void;
+  private frequencyData: Float32Array;
+  private timeData: Float32Array;
+  private channelData: [Float32Array, Float32Array];
+  private latestFrame: AnalysisFrame | null = null;
+  private frameHistory: AnalysisFrame[] = [];
+
+  constructor(context: AudioContext, options: AnalysisChannelOptions) {
+    this.context = context;
+    this.historySeconds = options.historySeconds;
+    this.onFrame = options.onFrame;
+
+    // Stereo in, so mono sources still reach both channels
+    this.input = context.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+
+    this.analyser = context.createAnalyser();
+    this.analyser.smoothingTimeConstant = 0.8;
+    this.input.connect(this.analyser);
+
+    // Left/right analysers behind a ChannelSplitter for the stereo image
+    this.splitter = context.createChannelSplitter(2);
+    this.input.connect(this.splitter);
+    this.channelAnalysers = [0, 1].map(channel => {
+      const analyser = context.createAnalyser();
+      this.splitter.connect(analyser, channel);
+      return analyser;
+    });
+
+    this.analyzer = new FrameAnalyzer(context.sampleRate, options.fftSize);
+    this.frequencyData = new Float32Array(0);
+    this.timeData = new Float32Array(0);
+    this.channelData = [new Float32Array(0), new Float32Array(0)];
+    this.resizeBuffers(options.fftSize);
+
+    if (options.useWorklet) {
+      this.startWorklet(options.fftSize, options.hopSize);
+    }
+  }
+
+  isWorkletRunning(): boolean {
+    return this.node !== null;
+  }
+
+  // Configure both the worklet and the main-thread fallback
+  send(message: AnalysisProcessorMessage): void {
+    if (message.type === 'config' && message.fftSize) {
+      this.resizeBuffers(message.fftSize);
+    }
+    applyAnalysisMessage(this.analyzer, message);
+    this.node?.port.postMessage(message);
+  }
+
+  // Latest analysis result. Never blocks: with the worklet running this is
+  // whatever frame arrived last; otherwise it is computed on demand.
+  getFrame(): AnalysisFrame {
+    if (this.node && this.latestFrame) {
+      return this.latestFrame;
+    }
+    return this.analyzeOnMainThread();
+  }
+
+  // All frames newer than `time`, oldest first
+  getFramesSince(time: number): AnalysisFrame[] {
+    if (!this.node) {
+      this.analyzeOnMainThread();
+    }
+    return this.frameHistory.filter(frame => frame.time > time);
+  }
+
+  getLatestFrame(): AnalysisFrame | null {
+    return this.latestFrame;
+  }
+
+  // Spectrum (dB, auto gain applied) of the latest frame. The worklet sends
+  // frames only, so with it running this reads the AnalyserNode on the input.
+  getFrequencyData(): Float32Array {
+    if (!this.node) {
+      return this.analyzer.getFrequencyData();
+    }
+
+    this.analyser.getFloatFrequencyData(this.frequencyData);
+    const autoGainDb = this.latestFrame?.autoGainDb ?? 0;
+    for (let i = 0; i < this.frequencyData.length; i++) {
+      this.frequencyData[i] += autoGainDb;
+    }
+    return this.frequencyData;
+  }
+
+  dispose(): void {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+    this.input.disconnect();
+    this.splitter.disconnect();
+    this.latestFrame = null;
+    this.frameHistory = [];
+  }
+
+  private startWorklet(fftSize: number, hopSize: number): void {
+    try {
+      this.node = new AudioWorkletNode(this.context, ANALYSIS_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 2,
+        channelCountMode: 'explicit',
+        processorOptions: { fftSize, hopSize }
+      });
+      this.node.port.onmessage = (event: MessageEvent<AnalysisFrame>) => {
+        this.receiveFrame(event.data);
+      };
+      this.input.connect(this.node);
+    } catch (error) {
+      console.warn('Failed to start analysis worklet, analysing on the main thread:', error);
+      this.node = null;
+    }
+  }
+
+  private resizeBuffers(fftSize: number): void {
+    this.analyser.fftSize = fftSize;
+    this.channelAnalysers.forEach(analyser => {
+      analyser.fftSize = fftSize;
+    });
+    this.frequencyData = new Float32Array(fftSize / 2);
+    this.timeData = new Float32Array(fftSize);
+    this.channelData = [new Float32Array(fftSize), new Float32Array(fftSize)];
+  }
+
+  // At most once per audio render quantum: the pipeline and the UI both poll
+  // every animation frame, and would otherwise analyse the same audio twice
+  private analyzeOnMainThread(): AnalysisFrame {
+    if (this.latestFrame && this.latestFrame.time === this.context.currentTime) {
+      return this.latestFrame;
+    }
+
+    // Spectrum from the raw time data, as in the worklet: the AnalyserNode's
+    // own spectrum is smoothed over time and would blur onsets
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    this.channelAnalysers.forEach((analyser, channel) => analyser.getFloatTimeDomainData(this.channelData[channel]));
+
+    const frame = this.analyzer.analyze(this.timeData, this.context.currentTime, this.channelData);
+    this.receiveFrame(frame);
+    return frame;
+  }
+
+  private receiveFrame(frame: AnalysisFrame): void {
+    this.onFrame?.(frame);
+
+    this.latestFrame = frame;
+    this.frameHistory.push(frame);
+
+    const cutoff = frame.time - this.historySeconds;
+    while (this.frameHistory.length > 0 && this.frameHistory[0].time < cutoff) {
+      this.frameHistory.shift();
+    }
+  }
+}
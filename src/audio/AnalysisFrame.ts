@@ -0,0 +1,77 @@
+import type { KeyMode } from './KeyEstimator';
+import type { StereoImage } from './StereoAnalyzer';
+import type { SectionChange, SectionLabel } from './SectionDetector';
+
+// Analysis source id of the conditioned mix; every other source (built-in
+// inputs, stems, nodes) registers under its own id
+export const MASTER_SOURCE_ID = 'master';
+
+// Output of the analysis core (FrameAnalyzer) and the events derived from it.
+// Kept apart from AudioEngine so the core has no Web Audio dependencies.
+export interface AnalysisFrame {
+  time: number; // AudioContext time (seconds); sample-accurate from the worklet
+  rms: number;
+  peak: number;
+  low: number; // band values here and below are auto-ranged to [0..1]
+  mid: number;
+  high: number;
+  bands?: Record<string, number>; // every named band
+  bandPeaks?: Record<string, number>; // peak hold
+  centroid: number; // spectral centroid / Nyquist [0..1]
+  spread: number; // spectral spread [0..1]
+  flatness: number; // [0..1] (0 = tonal, 1 = noisy)
+  rolloff: number; // rolloff frequency / Nyquist [0..1]
+  flux: number; // timbre change [0..1]
+  zcr: number; // zero-crossing rate [0..1]
+  mfcc?: number[]; // dB scale, c0 = log energy
+  pitch?: number; // MIDI note (undefined for silence and unpitched sound)
+  pitchHz?: number; // fundamental (Hz)
+  pitchCents?: number; // offset from the MIDI note (cents)
+  pitchClarity?: number; // [0..1]
+  chroma?: number[]; // 12 pitch classes from C, max 1
+  key?: number; // tonic of the estimated key (0 = C .. 11 = B)
+  keyMode?: KeyMode;
+  keyConfidence?: number; // [0..1]
+  onsets: { band: 'low'|'mid'|'high'|'full'; energy: number; time: number }[];
+  bpm?: number;
+  beatPhase: number; // [0..1)
+  beat: number; // beat within the bar (0..beatsPerBar-1)
+  bar: number;
+  tempoConfidence: number; // [0..1]
+  loudnessMomentary: number; // LUFS (400ms)
+  loudnessShortTerm: number; // LUFS (3s)
+  loudnessIntegrated: number; // LUFS (gated, since the last reset)
+  loudnessRange: number; // LU
+  autoGainDb: number; // dB applied for analysis; loudness is measured before it
+  balance: number; // [-1..1] (-1 = left)
+  width: number; // [0..1] (0 = mono)
+  correlation: number; // phase correlation [-1..1]
+  stereoBands?: Record<string, StereoImage>; // stereo image per low/mid/high band
+  section?: SectionLabel; // current section estimate
+  sectionNovelty?: number; // [0..1]
+  sectionChange?: SectionChange; // boundary detected in this frame
+  trackPosition?: number; // file position (seconds); `time` keeps rising across seeks
+  
+  // Instrument bands
+  bassDrum: number; // 60-80Hz
+  snare: number; // 200-300Hz
+  hihat: number; // 8000-12000Hz
+  kick: number; // 40-100Hz
+  vocal: number; // 300-3400Hz
+  melody: number; // 200-2000Hz
+  
+  // Colour controls
+  hue: number; // [0..1]
+  saturation: number; // [0..1]
+  brightness: number; // [0..1]
+}
+
+export interface AudioEvent {
+  t: number; // seconds, on the frame clock
+  kind?: 'onset' | 'section'; // onset when omitted
+  band: 'low'|'mid'|'high'|'full'; // 'full' for section events
+  energy: number; // 0..1 (boundary strength for section events)
+  pitch?: number;
+  centroid?: number;
+  section?: SectionLabel; // the new section (kind === 'section')
+}
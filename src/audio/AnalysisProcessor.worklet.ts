@@ -0,0 +1,103 @@
+import { FrameAnalyzer, ANALYSIS_PROCESSOR_NAME, applyAnalysisMessage } from './FrameAnalyzer';
+import type { AnalysisProcessorMessage } from './FrameAnalyzer';
+
+// AudioWorkletGlobalScope is not part of the DOM lib typings
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+const RENDER_QUANTUM = 128;
+
+// Runs FrameAnalyzer every `hopSize` samples on a sliding window of
+// `fftSize` samples, independent of the display frame rate.
+class AnalysisProcessor extends AudioWorkletProcessor {
+  private analyzer: FrameAnalyzer;
+  private ring: Float32Array;
+  private window: Float32Array;
+  private channelRings: [Float32Array, Float32Array];
+  private channelWindows: [Float32Array, Float32Array];
+  private writeIndex = 0;
+  private hopSize: number;
+  private samplesSinceHop = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const fftSize: number = options?.processorOptions?.fftSize ?? 2048;
+    this.hopSize = options?.processorOptions?.hopSize ?? 512;
+    this.analyzer = new FrameAnalyzer(sampleRate, fftSize);
+    this.ring = new Float32Array(fftSize);
+    this.window = new Float32Array(fftSize);
+    this.channelRings = [new Float32Array(fftSize), new Float32Array(fftSize)];
+    this.channelWindows = [new Float32Array(fftSize), new Float32Array(fftSize)];
+
+    this.port.onmessage = (event: MessageEvent<AnalysisProcessorMessage>) => {
+      const message = event.data;
+      if (message.type === 'config') {
+        if (message.fftSize && message.fftSize !== this.ring.length) {
+          this.ring = new Float32Array(message.fftSize);
+          this.window = new Float32Array(message.fftSize);
+          this.channelRings = [new Float32Array(message.fftSize), new Float32Array(message.fftSize)];
+          this.channelWindows = [new Float32Array(message.fftSize), new Float32Array(message.fftSize)];
+          this.writeIndex = 0;
+        }
+        if (message.hopSize) {
+          this.hopSize = message.hopSize;
+        }
+      }
+      applyAnalysisMessage(this.analyzer, message);
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // No connected source still advances the clock with silence
+    const channels = inputs[0] ?? [];
+    const blockLength = channels[0]?.length ?? RENDER_QUANTUM;
+
+    for (let i = 0; i < blockLength; i++) {
+      // Downmix to mono for analysis
+      let sample = 0;
+      for (let c = 0; c < channels.length; c++) {
+        sample += channels[c][i];
+      }
+      this.ring[this.writeIndex] = channels.length > 0 ? sample / channels.length : 0;
+      // Keep left/right for the stereo image; a mono input feeds both
+      this.channelRings[0][this.writeIndex] = channels[0]?.[i] ?? 0;
+      this.channelRings[1][this.writeIndex] = (channels[1] ?? channels[0])?.[i] ?? 0;
+      this.writeIndex = (this.writeIndex + 1) % this.ring.length;
+      this.samplesSinceHop++;
+
+      if (this.samplesSinceHop >= this.hopSize) {
+        this.samplesSinceHop = 0;
+        // Timestamp of the last sample in the window, in context seconds
+        this.emitFrame((currentFrame + i + 1) / sampleRate);
+      }
+    }
+
+    return true;
+  }
+
+  private emitFrame(time: number): void {
+    this.unroll(this.ring, this.window);
+    this.unroll(this.channelRings[0], this.channelWindows[0]);
+    this.unroll(this.channelRings[1], this.channelWindows[1]);
+
+    const frame = this.analyzer.analyze(this.window, time, this.channelWindows);
+    this.port.postMessage(frame);
+  }
+
+  // Unroll a ring buffer so the oldest sample comes first
+  private unroll(ring: Float32Array, window: Float32Array): void {
+    const size = ring.length;
+    window.set(ring.subarray(this.writeIndex), 0);
+    window.set(ring.subarray(0, this.writeIndex), size - this.writeIndex);
+  }
+}
+
+registerProcessor(ANALYSIS_PROCESSOR_NAME, AnalysisProcessor);
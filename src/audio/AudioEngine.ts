@@ -1,90 +1,125 @@
-export interface AnalysisFrame {
-  time: number;
-  rms: number;
-  low: number;
-  mid: number;
-  high: number;
-  centroid: number; // スペクトル重心 [0..1]
-  pitch?: number; // MIDIノート or null
-  chroma?: number[]; // 12次元正規化 or undefined
-  onsets: { band: 'low'|'mid'|'high'|'full'; energy: number }[];
-  bpm?: number;
-  beatPhase: number; // 拍位相 [0..1]
-  
-  // 音楽要素の詳細分析
-  bassDrum: number; // バスドラム強度 (60-80Hz)
-  snare: number; // スネア強度 (200-300Hz)
-  hihat: number; // ハイハット強度 (8000-12000Hz)
-  kick: number; // キック強度 (40-100Hz)
-  vocal: number; // ボーカル範囲 (300-3400Hz)
-  melody: number; // メロディー強度 (200-2000Hz)
-  
-  // 色制御用パラメータ
-  hue: number; // 色相 [0..1]
-  saturation: number; // 彩度 [0..1]
-  brightness: number; // 明度 [0..1]
+import { AudioTransport } from './AudioTransport';
+import { InputConditioner, DEFAULT_INPUT_CONDITIONING } from './InputConditioner';
+import { DEFAULT_AUTO_GAIN } from './FrameAnalyzer';
+import type { AnalysisProcessorMessage, AutoGainSettings } from './FrameAnalyzer';
+import { AnalysisChannel } from './AnalysisChannel';
+import { TestSignalGenerator, DEFAULT_TEST_SIGNAL } from './TestSignalGenerator';
+import type { TestSignalSettings } from './TestSignalGenerator';
+import { SessionRecorder } from './SessionRecorder';
+import type { RecordedSession } from './SessionRecorder';
+import { SessionReplayer } from './SessionReplayer';
+import type { OnsetBand, OnsetBandConfig } from './OnsetDetector';
+import { MASTER_SOURCE_ID } from './AnalysisFrame';
+import type { AnalysisFrame, AudioEvent } from './AnalysisFrame';
+import { DEFAULT_CROSSOVER, clampCrossover } from './BandAnalyzer';
+import type { BandDefinition, CrossoverSettings } from './BandAnalyzer';
+import { OfflineAnalyzer } from './OfflineAnalyzer';
+import type { OfflineAnalysisOptions, TrackAnalysis } from './OfflineAnalyzer';
+import analysisProcessorUrl from './AnalysisProcessor.worklet.ts?worker&url';
+import type { InputConditioningSettings, InputLevel } from './InputConditioner';
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+  groupId: string;
 }
 
-export interface AudioEvent {
-  t: number; // 発生時刻
-  band: 'low'|'mid'|'high'|'full';
-  energy: number; // 0..1
-  pitch?: number;
-  centroid?: number;
+export type AudioSourceType = 'microphone' | 'file' | 'tab' | 'generator' | 'replay';
+
+// Named analysis sources: the built-in inputs register under these ids,
+// stems and other nodes under their own. MASTER_SOURCE_ID is the conditioned mix.
+export const BUILTIN_SOURCE_IDS: Record<Exclude<AudioSourceType, 'replay'>, string> = {
+  microphone: 'mic',
+  file: 'file',
+  tab: 'tab',
+  generator: 'generator'
+};
+
+// Last selected device and settings, kept in localStorage
+export interface AudioSettings {
+  inputDeviceId: string | null;
+  fftSize: number;
+  conditioning: InputConditioningSettings;
+  crossover: CrossoverSettings;
+  autoGain: AutoGainSettings;
 }
 
+const SETTINGS_STORAGE_KEY = 'hikariweave.audioSettings';
+
+// Analysis runs every HOP_SIZE samples (~10.7ms at 48kHz) regardless of frame rate
+const HOP_SIZE = 512;
+// How much analysis history consumers can catch up on between renders
+const FRAME_HISTORY_SECONDS = 1.0;
+// Taps further apart than this start a new tap-tempo measurement
+const TAP_TIMEOUT_SECONDS = 2.0;
+const MAX_TAPS = 8;
+
 export class AudioEngine {
   private audioContext: AudioContext | null = null;
-  private analyser: AnalyserNode | null = null;
   private microphone: MediaStreamAudioSourceNode | null = null;
+  private microphoneStream: MediaStream | null = null;
+  private selectedDeviceId: string | null = null;
+  private deviceChangeListeners = new Set<(devices: AudioInputDevice[]) => void>();
+  private tabCapture: MediaStreamAudioSourceNode | null = null;
+  private tabStream: MediaStream | null = null;
+  private generator: TestSignalGenerator | null = null;
+  private testSignal: TestSignalSettings = { ...DEFAULT_TEST_SIGNAL };
+  private transport: AudioTransport | null = null;
+  private conditioner: InputConditioner | null = null;
+  private conditioning: InputConditioningSettings = { ...DEFAULT_INPUT_CONDITIONING };
+  private crossover: CrossoverSettings = { ...DEFAULT_CROSSOVER };
+  private autoGain: AutoGainSettings = { ...DEFAULT_AUTO_GAIN };
+  private micMonitorGain: GainNode | null = null;
+  private fileMonitorGain: GainNode | null = null;
+  private generatorMonitorGain: GainNode | null = null;
+  private sourceEndedListeners = new Set<(source: AudioSourceType) => void>();
   private audioElement: HTMLAudioElement | null = null;
   private audioSource: MediaElementAudioSourceNode | null = null;
   private isInitialized = false;
   private fftSize = 2048;
-  private bufferLength: number;
-  private dataArray: Uint8Array;
-  private frequencyData: Float32Array;
-  private timeData: Float32Array;
-  
-  // Analysis parameters
-  private lowPassFreq = 250;
-  private midPassFreq = 2000;
-  private highPassFreq = 4000;
   
-  // Onset detection
-  private previousSpectrum: Float32Array;
-  private onsetThreshold = 0.3;
-  private onsetDecay = 0.95;
-  private onsetCounter = 0;
-  
-  // BPM detection
-  private bpmHistory: number[] = [];
-  private lastBeatTime = 0;
-  private beatInterval = 0;
-  private beatPhase = 0;
-  
-  // Enhanced analysis
-  private previousFrame: AnalysisFrame | null = null;
-  private onsetThresholds = { low: 0.3, mid: 0.25, high: 0.2, full: 0.15 };
-  private spectralFluxHistory: number[] = [];
-  private fluxHistoryLength = 10;
+  // Analysis: the conditioned mix plus one chain per named source
+  private master: AnalysisChannel | null = null;
+  private sources = new Map<string, { channel: AnalysisChannel; node: AudioNode; mixed: boolean }>();
+  private workletAvailable = false;
+  // Last config message of each kind, replayed to channels created later
+  private analysisConfig = new Map<string, AnalysisProcessorMessage>();
+
+  // Session recording of the master stream, and replay in its place
+  private recorder = new SessionRecorder();
+  private replayer: SessionReplayer | null = null;
+
+  // Beat clock overrides
+  private tempoLock: number | null = null; // fixed BPM (null = detect)
+  private tapTimes: number[] = [];
 
-  constructor() {
-    this.bufferLength = this.fftSize / 2;
-    this.dataArray = new Uint8Array(this.bufferLength);
-    this.frequencyData = new Float32Array(this.bufferLength);
-    this.timeData = new Float32Array(this.fftSize);
-    this.previousSpectrum = new Float32Array(this.bufferLength);
-  }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
     try {
+      // Restore last-used device and settings before creating the analyser
+      this.restoreSettings();
+
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = this.fftSize;
-      this.analyser.smoothingTimeConstant = 0.8;
+      this.analysisConfig.set('crossover', { type: 'crossover', crossover: this.crossover });
+      this.analysisConfig.set('autoGain', { type: 'autoGain', settings: this.autoGain });
+      await this.loadAnalysisWorklet();
+
+      // Every source feeds the conditioning stage; its output is the master stream
+      this.conditioner = new InputConditioner(this.audioContext, this.conditioning);
+      this.master = this.createChannel();
+      this.conditioner.output.connect(this.master.input);
+
+      // Monitoring to the speakers bypasses conditioning
+      this.micMonitorGain = this.audioContext.createGain();
+      this.micMonitorGain.gain.value = 0.5; // Higher volume for microphone
+      this.micMonitorGain.connect(this.audioContext.destination);
+      this.fileMonitorGain = this.audioContext.createGain();
+      this.fileMonitorGain.gain.value = 0.8; // Higher volume for better audibility
+      this.fileMonitorGain.connect(this.audioContext.destination);
+      this.generatorMonitorGain = this.audioContext.createGain();
+      this.generatorMonitorGain.connect(this.audioContext.destination);
       
       // Ensure audio context is running
       if (this.audioContext.state === 'suspended') {
@@ -92,6 +127,16 @@ export class AudioEngine {
         await this.audioContext.resume();
       }
       
+      this.transport = new AudioTransport(this.audioContext);
+      // Analysis is attached when a file is loaded; monitoring always
+      this.transport.output.connect(this.fileMonitorGain);
+      this.transport.onSeek(() => {
+        // A seek is a discontinuity, not a musical onset: restart the flux history
+        this.resetAnalysis();
+      });
+
+      navigator.mediaDevices?.addEventListener?.('devicechange', this.handleDeviceChange);
+
       this.isInitialized = true;
       console.log('Audio engine initialized, state:', this.audioContext.state);
     } catch (error) {
@@ -100,13 +145,79 @@ export class AudioEngine {
     }
   }
 
-  async startMicrophone(): Promise<void> {
-    if (!this.audioContext || !this.analyser) {
+  async getInputDevices(): Promise<AudioInputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return [];
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(device => device.kind === 'audioinput')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        // Labels stay empty until microphone permission has been granted
+        label: device.label || `Audio Input ${index + 1}`,
+        groupId: device.groupId
+      }));
+  }
+
+  // Subscribe to hot-plug changes; returns an unsubscribe function
+  onDeviceChange(listener: (devices: AudioInputDevice[]) => void): () => void {
+    this.deviceChangeListeners.add(listener);
+    return () => {
+      this.deviceChangeListeners.delete(listener);
+    };
+  }
+
+  getSelectedDeviceId(): string | null {
+    return this.selectedDeviceId;
+  }
+
+  async startMicrophone(deviceId?: string): Promise<void> {
+    if (!this.audioContext || !this.master) {
+      throw new Error('Audio engine not initialized');
+    }
+
+    // Fall back to the last-used device restored from LocalStorage
+    const requestedDeviceId = deviceId ?? this.selectedDeviceId;
+
+    try {
+      // Switching devices: release the previous stream first
+      this.stopMicrophone();
+
+      const stream = await this.openInputStream(requestedDeviceId);
+      const activeDeviceId = stream.getAudioTracks()[0]?.getSettings().deviceId ?? requestedDeviceId;
+
+      this.microphoneStream = stream;
+      this.selectedDeviceId = activeDeviceId ?? null;
+      this.saveSettings();
+
+      this.microphone = this.audioContext.createMediaStreamSource(stream);
+      
+      // Connect to both analysis (own stream + master) and speakers
+      this.addSource(BUILTIN_SOURCE_IDS.microphone, this.microphone);
+      this.microphone.connect(this.micMonitorGain!);
+    } catch (error) {
+      console.error('Failed to start microphone:', error);
+      throw error;
+    }
+  }
+
+  async startTabCapture(): Promise<void> {
+    if (!this.audioContext || !this.master) {
       throw new Error('Audio engine not initialized');
     }
 
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      throw new Error('Tab audio capture is not supported in this browser');
+    }
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
+      this.stopTabCapture();
+
+      // Chrome requires video to be requested alongside audio
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
         audio: {
           echoCancellation: false,
           noiseSuppression: false,
@@ -114,27 +225,209 @@ export class AudioEngine {
         }
       });
 
-      this.microphone = this.audioContext.createMediaStreamSource(stream);
-      
-      // Connect to both analyser and speakers
-      const gainNode = this.audioContext.createGain();
-      gainNode.gain.value = 0.5; // Higher volume for microphone
-      
-      // Connect microphone to gain node, then to both analyser and speakers
-      this.microphone.connect(gainNode);
-      gainNode.connect(this.analyser);
-      gainNode.connect(this.audioContext.destination);
-      
-      // Store reference
-      (this as any).micGainNode = gainNode;
+      const audioTracks = stream.getAudioTracks();
+      if (audioTracks.length === 0) {
+        stream.getTracks().forEach(track => track.stop());
+        throw new Error('No audio track was shared. Choose a browser tab and enable "Share tab audio".');
+      }
+
+      // Detect when the user stops sharing from the browser UI
+      stream.getTracks().forEach(track => {
+        track.addEventListener('ended', this.handleTabCaptureEnded);
+      });
+
+      this.tabStream = stream;
+      this.tabCapture = this.audioContext.createMediaStreamSource(new MediaStream(audioTracks));
+
+      // Analysis only: the shared tab is already audible, so do not route to speakers
+      this.addSource(BUILTIN_SOURCE_IDS.tab, this.tabCapture);
+
+      console.log('Tab audio capture started:', audioTracks[0].label);
     } catch (error) {
-      console.error('Failed to start microphone:', error);
+      console.error('Failed to start tab capture:', error);
+      throw error;
+    }
+  }
+
+  // Internal test signal (click, sweep, noise or drum pattern) as an input
+  // source; needs no microphone or file
+  startTestSignal(settings: Partial<TestSignalSettings> = {}): void {
+    if (!this.audioContext || !this.master) {
+      throw new Error('Audio engine not initialized');
+    }
+
+    this.stopTestSignal();
+    this.testSignal = { ...this.testSignal, ...settings };
+    this.generator = new TestSignalGenerator(this.audioContext, this.testSignal);
+    this.addSource(BUILTIN_SOURCE_IDS.generator, this.generator.output);
+    this.generator.output.connect(this.generatorMonitorGain!);
+    this.applyTestSignalMonitor();
+    this.generator.start();
+
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume();
+    }
+    console.log('Test signal started:', this.testSignal.mode);
+  }
+
+  getTestSignal(): TestSignalSettings {
+    return { ...this.testSignal };
+  }
+
+  // Change the running signal in place (or the next one to start)
+  updateTestSignal(updates: Partial<TestSignalSettings>): void {
+    this.testSignal = { ...this.testSignal, ...updates };
+    this.generator?.update(this.testSignal);
+    this.applyTestSignalMonitor();
+  }
+
+  private applyTestSignalMonitor(): void {
+    if (this.generatorMonitorGain) {
+      this.generatorMonitorGain.gain.value = this.testSignal.muted ? 0 : 0.5;
+    }
+  }
+
+  private stopTestSignal(): void {
+    this.removeSource(BUILTIN_SOURCE_IDS.generator);
+    if (this.generator) {
+      this.generator.dispose();
+      this.generator = null;
+    }
+  }
+
+  // Subscribe to sources ending on their own (e.g. tab sharing stopped)
+  onSourceEnded(listener: (source: AudioSourceType) => void): () => void {
+    this.sourceEndedListeners.add(listener);
+    return () => {
+      this.sourceEndedListeners.delete(listener);
+    };
+  }
+
+  private stopTabCapture(): void {
+    this.removeSource(BUILTIN_SOURCE_IDS.tab);
+    if (this.tabCapture) {
+      try {
+        this.tabCapture.disconnect();
+        console.log('Tab capture disconnected');
+      } catch (error) {
+        console.log('Tab capture disconnect error:', error);
+      }
+      this.tabCapture = null;
+    }
+
+    if (this.tabStream) {
+      this.tabStream.getTracks().forEach(track => {
+        track.removeEventListener('ended', this.handleTabCaptureEnded);
+        track.stop();
+      });
+      this.tabStream = null;
+    }
+  }
+
+  private handleTabCaptureEnded = (): void => {
+    console.log('Tab sharing ended by user');
+    this.stopTabCapture();
+    this.sourceEndedListeners.forEach(listener => listener('tab'));
+  };
+
+  private async openInputStream(deviceId: string | null): Promise<MediaStream> {
+    const constraints: MediaTrackConstraints = {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    };
+
+    if (!deviceId) {
+      return navigator.mediaDevices.getUserMedia({ audio: constraints });
+    }
+
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...constraints, deviceId: { exact: deviceId } }
+      });
+    } catch (error) {
+      // The saved device may have been unplugged since the last session
+      if (error instanceof DOMException && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError')) {
+        console.warn('Audio input device not available, falling back to default:', deviceId);
+        return navigator.mediaDevices.getUserMedia({ audio: constraints });
+      }
       throw error;
     }
   }
 
+  private stopMicrophone(): void {
+    this.removeSource(BUILTIN_SOURCE_IDS.microphone);
+    if (this.microphone) {
+      try {
+        this.microphone.disconnect();
+        console.log('Microphone disconnected');
+      } catch (error) {
+        console.log('Microphone disconnect error:', error);
+      }
+      this.microphone = null;
+    }
+
+    if (this.microphoneStream) {
+      this.microphoneStream.getTracks().forEach(track => track.stop());
+      this.microphoneStream = null;
+    }
+  }
+
+  private handleDeviceChange = async (): Promise<void> => {
+    try {
+      const devices = await this.getInputDevices();
+      console.log('Audio input devices changed:', devices.length);
+      this.deviceChangeListeners.forEach(listener => listener(devices));
+    } catch (error) {
+      console.error('Failed to enumerate audio devices:', error);
+    }
+  };
+
+  private restoreSettings(): void {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (!stored) return;
+
+      const settings: Partial<AudioSettings> = JSON.parse(stored);
+      if (typeof settings.inputDeviceId === 'string') {
+        this.selectedDeviceId = settings.inputDeviceId;
+      }
+      if (settings.fftSize === 1024 || settings.fftSize === 2048) {
+        this.setFFTSize(settings.fftSize);
+      }
+      if (settings.conditioning) {
+        this.conditioning = { ...DEFAULT_INPUT_CONDITIONING, ...settings.conditioning };
+      }
+      if (settings.crossover) {
+        this.crossover = clampCrossover({ ...DEFAULT_CROSSOVER, ...settings.crossover });
+      }
+      if (settings.autoGain) {
+        this.autoGain = { ...DEFAULT_AUTO_GAIN, ...settings.autoGain };
+      }
+      console.log('Audio settings restored:', settings);
+    } catch (error) {
+      console.warn('Failed to restore audio settings:', error);
+    }
+  }
+
+  private saveSettings(): void {
+    const settings: AudioSettings = {
+      inputDeviceId: this.selectedDeviceId,
+      fftSize: this.fftSize,
+      conditioning: this.conditioning,
+      crossover: this.crossover,
+      autoGain: this.autoGain
+    };
+
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Failed to save audio settings:', error);
+    }
+  }
+
   async loadAudioFile(file: File): Promise<void> {
-    if (!this.audioContext || !this.analyser) {
+    if (!this.audioContext || !this.master) {
       throw new Error('Audio engine not initialized');
     }
 
@@ -149,26 +442,13 @@ export class AudioEngine {
           .then((audioBuffer) => {
             console.log('Audio data decoded successfully');
             
-            // Create a buffer source for playback
-            const source = this.audioContext!.createBufferSource();
-            source.buffer = audioBuffer;
-            
-            // Connect to both analyser and speakers
-            const gainNode = this.audioContext!.createGain();
-            gainNode.gain.value = 0.8; // Higher volume for better audibility
-            
-            // Connect source to gain node
-            source.connect(gainNode);
-            
-            // Connect to both analyser and speakers directly
-            gainNode.connect(this.analyser!);
-            gainNode.connect(this.audioContext!.destination);
-            
-            source.loop = true;
-            
-            // Store reference to prevent garbage collection
-            (this as any).audioSource = source;
-            (this as any).gainNode = gainNode;
+            const transport = this.transport!;
+            // Stems belong to the previous track
+            transport.getStemIds().forEach(id => this.removeSource(id));
+            transport.load(audioBuffer);
+            if (!this.sources.has(BUILTIN_SOURCE_IDS.file)) {
+              this.addSource(BUILTIN_SOURCE_IDS.file, transport.output);
+            }
             
             console.log('Audio source created, starting playback...');
             
@@ -180,7 +460,7 @@ export class AudioEngine {
               });
             }
             
-            source.start();
+            transport.play();
             console.log('Audio playback started successfully');
             resolve();
           })
@@ -194,423 +474,456 @@ export class AudioEngine {
   stop(): void {
     console.log('Stopping audio...');
     
-    // Stop audio source if it exists
-    const audioSource = (this as any).audioSource;
-    if (audioSource) {
-      try {
-        audioSource.stop();
-        console.log('Audio source stopped');
-      } catch (error) {
-        console.log('Audio source already stopped or error:', error);
-      }
-      (this as any).audioSource = null;
+    // Pause file playback, keeping the buffer and position for resume
+    if (this.transport?.getState().isPlaying) {
+      this.transport.pause();
+      console.log('File playback paused');
     }
     
     // Stop microphone if it exists
-    if (this.microphone) {
-      try {
-        this.microphone.disconnect();
-        console.log('Microphone disconnected');
-      } catch (error) {
-        console.log('Microphone disconnect error:', error);
-      }
-      this.microphone = null;
-    }
+    this.stopMicrophone();
+
+    // Stop tab capture if it exists
+    this.stopTabCapture();
+
+    this.stopTestSignal();
+    this.stopReplay();
     
     console.log('Audio stopped successfully');
   }
 
-  getAnalysis(): any {
-    if (!this.analyser) {
-      throw new Error('Audio engine not initialized');
-    }
-
-    // Get frequency data
-    this.analyser.getFloatFrequencyData(this.frequencyData);
-    this.analyser.getFloatTimeDomainData(this.timeData);
+  getTransport(): AudioTransport | null {
+    return this.transport;
+  }
 
-    // Calculate RMS
-    let rms = 0;
-    for (let i = 0; i < this.timeData.length; i++) {
-      rms += this.timeData[i] * this.timeData[i];
+  // Whole-track feature map for MV mode / pre-show prep. Defaults to the
+  // track currently loaded in the transport.
+  async analyzeTrack(buffer?: AudioBuffer, options: OfflineAnalysisOptions = {}): Promise<TrackAnalysis> {
+    const target = buffer ?? this.transport?.getBuffer();
+    if (!target) {
+      throw new Error('No audio track loaded');
     }
-    rms = Math.sqrt(rms / this.timeData.length);
 
-    // Calculate peak
-    const peak = Math.max(...Array.from(this.timeData).map(Math.abs));
+    console.log('Starting offline track analysis:', target.duration.toFixed(1), 's');
+    const startedAt = performance.now();
+    const analysis = await new OfflineAnalyzer().analyze(target, {
+      fftSize: this.fftSize,
+      hopSize: HOP_SIZE,
+      ...options
+    });
+    console.log(
+      `Offline analysis finished in ${((performance.now() - startedAt) / 1000).toFixed(1)}s:`,
+      analysis.frames.length, 'frames,', analysis.onsets.length, 'onsets,',
+      Math.round(analysis.beatGrid.bpm), 'BPM'
+    );
+    return analysis;
+  }
 
-    // Calculate frequency bands
-    const low = this.calculateBandEnergy(0, this.lowPassFreq);
-    const mid = this.calculateBandEnergy(this.lowPassFreq, this.midPassFreq);
-    const high = this.calculateBandEnergy(this.midPassFreq, this.highPassFreq);
+  getInputConditioning(): InputConditioningSettings {
+    return { ...this.conditioning };
+  }
 
-    // Detect onset
-    const onset = this.detectOnset();
+  updateInputConditioning(updates: Partial<InputConditioningSettings>): void {
+    this.conditioning = { ...this.conditioning, ...updates };
+    if (this.conditioner) {
+      this.conditioner.update(updates);
+      // The conditioner clamps trim to its range
+      this.conditioning = this.conditioner.getSettings();
+    }
+    this.saveSettings();
+  }
 
-    // Calculate BPM
-    const bpm = this.calculateBPM();
+  getInputLevel(): InputLevel | null {
+    return this.conditioner?.getLevel() ?? null;
+  }
 
-    // Calculate spectral centroid
-    const spectralCentroid = this.calculateSpectralCentroid();
+  // Speaker monitoring level only; analysis levels are set by trim
+  setVolume(volume: number): void {
+    if (this.fileMonitorGain) {
+      this.fileMonitorGain.gain.value = volume;
+    }
+    if (this.micMonitorGain) {
+      this.micMonitorGain.gain.value = volume * 0.5; // Lower volume for mic
+    }
+  }
 
-    // Calculate pitch and chroma (simplified)
-    const pitch = this.calculatePitch();
-    const chroma = this.calculateChroma();
+  // Legacy AudioAnalysis shape, derived from the latest AnalysisFrame of
+  // `sourceId` (the master mix by default)
+  getAnalysis(sourceId: string = MASTER_SOURCE_ID): any {
+    const channel = this.getChannel(sourceId);
+    const frame = this.getAnalysisFrame(sourceId);
 
     return {
-      fft: this.frequencyData,
-      rms,
-      peak,
-      low,
-      mid,
-      high,
-      onset,
-      bpm,
-      spectralCentroid,
-      pitch,
-      chroma
+      fft: channel.getFrequencyData(),
+      rms: frame.rms,
+      peak: frame.peak,
+      low: frame.low,
+      mid: frame.mid,
+      high: frame.high,
+      onset: frame.onsets.length > 0,
+      bpm: frame.bpm,
+      spectralCentroid: frame.centroid,
+      spread: frame.spread,
+      flatness: frame.flatness,
+      rolloff: frame.rolloff,
+      flux: frame.flux,
+      zcr: frame.zcr,
+      mfcc: frame.mfcc,
+      pitch: frame.pitch,
+      pitchClarity: frame.pitchClarity,
+      chroma: frame.chroma,
+      loudness: frame.loudnessMomentary,
+      loudnessShortTerm: frame.loudnessShortTerm,
+      loudnessIntegrated: frame.loudnessIntegrated,
+      loudnessRange: frame.loudnessRange,
+      balance: frame.balance,
+      width: frame.width,
+      correlation: frame.correlation,
+      stereoBands: frame.stereoBands
     };
   }
 
-  // New enhanced analysis method
-  getAnalysisFrame(): AnalysisFrame {
-    if (!this.analyser) {
-      throw new Error('Audio engine not initialized');
-    }
+  // Latest analysis result. Never blocks: with the worklet running this is
+  // whatever frame arrived last; otherwise it is computed on demand.
+  getAnalysisFrame(sourceId: string = MASTER_SOURCE_ID): AnalysisFrame {
+    const replayer = this.getActiveReplayer(sourceId);
+    if (replayer) return replayer.getFrame();
 
-    const currentTime = this.audioContext!.currentTime;
-    
-    // Get frequency data
-    this.analyser.getFloatFrequencyData(this.frequencyData);
-    this.analyser.getFloatTimeDomainData(this.timeData);
-
-    // Calculate RMS
-    let rms = 0;
-    for (let i = 0; i < this.timeData.length; i++) {
-      rms += this.timeData[i] * this.timeData[i];
-    }
-    rms = Math.sqrt(rms / this.timeData.length);
-
-    // Calculate frequency bands
-    const low = this.calculateBandEnergy(0, this.lowPassFreq);
-    const mid = this.calculateBandEnergy(this.lowPassFreq, this.midPassFreq);
-    const high = this.calculateBandEnergy(this.midPassFreq, this.highPassFreq);
-
-    // Calculate specific musical elements
-    const bassDrum = this.calculateBandEnergy(60, 80); // バスドラム
-    const snare = this.calculateBandEnergy(200, 300); // スネア
-    const hihat = this.calculateBandEnergy(8000, 12000); // ハイハット
-    const kick = this.calculateBandEnergy(40, 100); // キック
-    const vocal = this.calculateBandEnergy(300, 3400); // ボーカル
-    const melody = this.calculateBandEnergy(200, 2000); // メロディー
-
-    // Calculate spectral centroid
-    const centroid = this.calculateSpectralCentroid();
-
-    // Detect onsets for each band
-    const onsets = this.detectBandOnsets();
-
-    // Calculate BPM and beat phase
-    const bpm = this.calculateBPM();
-    this.updateBeatPhase(bpm);
-
-    // Detect pitch and chroma
-    const pitch = this.calculatePitch();
-    const chroma = this.calculateChroma();
-
-    // Calculate color parameters based on musical elements
-    const hue = this.calculateHue(bassDrum, snare, hihat, melody);
-    const saturation = this.calculateSaturation(rms, centroid);
-    const brightness = this.calculateBrightness(rms, bassDrum, hihat);
-
-    const frame: AnalysisFrame = {
-      time: currentTime,
-      rms,
-      low,
-      mid,
-      high,
-      centroid,
-      pitch,
-      chroma,
-      onsets,
-      bpm,
-      beatPhase: this.beatPhase,
-      
-      // Musical elements
-      bassDrum,
-      snare,
-      hihat,
-      kick,
-      vocal,
-      melody,
-      
-      // Color control
-      hue,
-      saturation,
-      brightness
-    };
+    return this.getChannel(sourceId).getFrame();
+  }
+
+  // All frames newer than `time`, oldest first. Renderers use this to pick up
+  // every onset produced between two animation frames.
+  getAnalysisFramesSince(time: number, sourceId: string = MASTER_SOURCE_ID): AnalysisFrame[] {
+    const replayer = this.getActiveReplayer(sourceId);
+    if (replayer) return replayer.getFramesSince(time);
 
-    this.previousFrame = frame;
-    return frame;
+    return this.getChannel(sourceId).getFramesSince(time);
   }
 
-  private calculateBandEnergy(lowFreq: number, highFreq: number): number {
-    const nyquist = this.audioContext!.sampleRate / 2;
-    const lowBin = Math.floor((lowFreq / nyquist) * this.bufferLength);
-    const highBin = Math.floor((highFreq / nyquist) * this.bufferLength);
-    
-    let energy = 0;
-    for (let i = lowBin; i < highBin && i < this.bufferLength; i++) {
-      energy += Math.pow(10, this.frequencyData[i] / 10);
-    }
-    return energy;
+  // Record the master frame stream (and the events it produces) until
+  // stopRecording; see serializeSession for the file format
+  startRecording(): void {
+    this.recorder.start();
+    console.log('Session recording started');
   }
 
-  private detectOnset(): boolean {
-    let flux = 0;
-    for (let i = 0; i < this.bufferLength; i++) {
-      const diff = this.frequencyData[i] - this.previousSpectrum[i];
-      if (diff > 0) {
-        flux += diff;
-      }
-    }
+  // The recording as a JSON Lines file, ready to save
+  stopRecording(): Blob {
+    const frames = this.recorder.getFrameCount();
+    const duration = this.recorder.getDuration();
+    const file = this.recorder.stop();
+    console.log('Session recording stopped:', frames, 'frames,', duration.toFixed(1), 's');
+    return file;
+  }
 
-    const detected = flux > this.onsetThreshold;
-    
-    if (detected) {
-      this.onsetCounter = 10; // Hold for 10 frames
-    } else {
-      this.onsetCounter = Math.max(0, this.onsetCounter - 1);
-    }
+  isRecording(): boolean {
+    return this.recorder.isRecording();
+  }
 
-    // Update previous spectrum
-    this.previousSpectrum.set(this.frequencyData);
+  // Replay a recorded session as the master stream. Needs no audio input; the
+  // live master stream comes back with stopReplay (or stop). Replayed frames
+  // run on the AudioContext clock like live ones, so frame time never jumps
+  // backwards when switching between the two.
+  startReplay(session: RecordedSession, loop = true): void {
+    const context = this.audioContext;
+    this.replayer = new SessionReplayer(session, {
+      loop,
+      historySeconds: FRAME_HISTORY_SECONDS,
+      clock: context ? () => context.currentTime : undefined
+    });
+    this.replayer.play();
+    console.log('Session replay started:', session.frames.length, 'frames');
+  }
 
-    return this.onsetCounter > 0;
+  stopReplay(): void {
+    this.replayer = null;
   }
 
-  private detectBandOnsets(): { band: 'low'|'mid'|'high'|'full'; energy: number }[] {
-    const onsets: { band: 'low'|'mid'|'high'|'full'; energy: number }[] = [];
-    
-    if (!this.previousFrame) {
-      return onsets;
-    }
+  getReplayer(): SessionReplayer | null {
+    return this.replayer;
+  }
 
-    // Calculate spectral flux for each band
-    const lowFlux = this.calculateSpectralFlux('low');
-    const midFlux = this.calculateSpectralFlux('mid');
-    const highFlux = this.calculateSpectralFlux('high');
-    const fullFlux = this.calculateSpectralFlux('full');
+  private getActiveReplayer(sourceId: string): SessionReplayer | null {
+    if (!this.replayer || sourceId !== MASTER_SOURCE_ID) return null;
 
-    // Check for onsets in each band
-    if (lowFlux > this.onsetThresholds.low) {
-      onsets.push({ band: 'low', energy: lowFlux });
-    }
-    if (midFlux > this.onsetThresholds.mid) {
-      onsets.push({ band: 'mid', energy: midFlux });
+    if (this.replayer.isFinished()) {
+      this.stopReplay();
+      this.sourceEndedListeners.forEach(listener => listener('replay'));
+      return null;
     }
-    if (highFlux > this.onsetThresholds.high) {
-      onsets.push({ band: 'high', energy: highFlux });
+    return this.replayer;
+  }
+
+  // Analyse `node` as its own source. With `mixToMaster` it also feeds the
+  // conditioned master mix; stems that are already part of the mix should not.
+  addSource(id: string, node: AudioNode, mixToMaster = true): void {
+    if (!this.audioContext || !this.conditioner) {
+      throw new Error('Audio engine not initialized');
     }
-    if (fullFlux > this.onsetThresholds.full) {
-      onsets.push({ band: 'full', energy: fullFlux });
+    if (id === MASTER_SOURCE_ID) {
+      throw new Error(`"${MASTER_SOURCE_ID}" is reserved for the mixed stream`);
     }
 
-    return onsets;
+    this.removeSource(id);
+    const channel = this.createChannel();
+    node.connect(channel.input);
+    if (mixToMaster) {
+      node.connect(this.conditioner.input);
+    }
+    this.sources.set(id, { channel, node, mixed: mixToMaster });
+    console.log('Analysis source added:', id);
   }
 
-  private calculateSpectralFlux(band: 'low'|'mid'|'high'|'full'): number {
-    if (!this.previousFrame) return 0;
+  removeSource(id: string): void {
+    const source = this.sources.get(id);
+    if (!source) return;
 
-    let flux = 0;
-    const currentSpectrum = this.frequencyData;
-    const previousSpectrum = this.previousFrame ? this.frequencyData : new Float32Array(this.bufferLength);
-
-    let startBin = 0, endBin = this.bufferLength;
-    
-    switch (band) {
-      case 'low':
-        endBin = Math.floor((this.lowPassFreq / (this.audioContext!.sampleRate / 2)) * this.bufferLength);
-        break;
-      case 'mid':
-        startBin = Math.floor((this.lowPassFreq / (this.audioContext!.sampleRate / 2)) * this.bufferLength);
-        endBin = Math.floor((this.midPassFreq / (this.audioContext!.sampleRate / 2)) * this.bufferLength);
-        break;
-      case 'high':
-        startBin = Math.floor((this.midPassFreq / (this.audioContext!.sampleRate / 2)) * this.bufferLength);
-        break;
-    }
-
-    for (let i = startBin; i < endBin; i++) {
-      const diff = currentSpectrum[i] - previousSpectrum[i];
-      if (diff > 0) {
-        flux += diff;
+    try {
+      source.node.disconnect(source.channel.input);
+      if (source.mixed && this.conditioner) {
+        source.node.disconnect(this.conditioner.input);
       }
+    } catch (error) {
+      console.log('Source disconnect error:', error);
     }
+    source.channel.dispose();
+    this.sources.delete(id);
+    if (this.transport?.hasStem(id)) {
+      this.transport.removeStem(id);
+    }
+    console.log('Analysis source removed:', id);
+  }
 
-    return flux / (endBin - startBin);
+  // Whether the master stream exists, i.e. initialize() has finished and the
+  // engine is not disposed. The analysis getters throw until then.
+  isReady(): boolean {
+    return this.master !== null;
   }
 
-  private updateBeatPhase(bpm: number): void {
-    if (!bpm || bpm < 60) return;
+  // Named sources with their own stream, excluding the master
+  getSourceIds(): string[] {
+    return [...this.sources.keys()];
+  }
 
-    const currentTime = this.audioContext!.currentTime;
-    const beatInterval = 60 / bpm; // seconds per beat
-    
-    if (this.lastBeatTime === 0) {
-      this.lastBeatTime = currentTime;
-      this.beatPhase = 0;
-    } else {
-      const timeSinceLastBeat = currentTime - this.lastBeatTime;
-      this.beatPhase = (timeSinceLastBeat % beatInterval) / beatInterval;
-      
-      // Detect beat
-      if (timeSinceLastBeat >= beatInterval) {
-        this.lastBeatTime = currentTime;
-        this.beatPhase = 0;
-      }
+  // Stem of the loaded track: plays in sync with the transport, analysis only
+  // (not monitored and not mixed into the master, which already contains it)
+  async loadStem(id: string, file: File): Promise<void> {
+    if (!this.audioContext || !this.transport?.isLoaded()) {
+      throw new Error('Load a track before adding stems');
     }
+    if (id === MASTER_SOURCE_ID || this.isBuiltinSource(id)) {
+      throw new Error(`Stem id "${id}" is reserved`);
+    }
+
+    const buffer = await this.audioContext.decodeAudioData(await file.arrayBuffer());
+    const output = this.transport.addStem(id, buffer);
+    this.addSource(id, output, false);
   }
 
-  private calculateBPM(): number {
-    if (this.onsetCounter > 0) {
-      const now = Date.now();
-      if (this.lastBeatTime > 0) {
-        const interval = now - this.lastBeatTime;
-        if (interval > 200 && interval < 2000) { // Reasonable BPM range
-          this.bpmHistory.push(60000 / interval);
-          if (this.bpmHistory.length > 10) {
-            this.bpmHistory.shift();
-          }
-        }
-      }
-      this.lastBeatTime = now;
-    }
+  private isBuiltinSource(id: string): boolean {
+    return Object.values(BUILTIN_SOURCE_IDS).includes(id);
+  }
 
-    if (this.bpmHistory.length > 0) {
-      return this.bpmHistory.reduce((a, b) => a + b) / this.bpmHistory.length;
+  private getChannel(sourceId: string): AnalysisChannel {
+    if (!this.master) {
+      throw new Error('Audio engine not initialized');
     }
-    return 120; // Default BPM
-  }
+    if (sourceId === MASTER_SOURCE_ID) return this.master;
 
-  private calculateSpectralCentroid(): number {
-    let weightedSum = 0;
-    let magnitudeSum = 0;
-    
-    for (let i = 0; i < this.bufferLength; i++) {
-      const magnitude = Math.pow(10, this.frequencyData[i] / 10);
-      weightedSum += i * magnitude;
-      magnitudeSum += magnitude;
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      throw new Error(`Unknown analysis source: ${sourceId}`);
     }
-    
-    return magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+    return source.channel;
   }
 
-  private calculatePitch(): number {
-    // Simplified pitch detection using autocorrelation
-    const minPeriod = 10;
-    const maxPeriod = 200;
-    let bestPeriod = 0;
-    let bestCorrelation = 0;
-
-    for (let period = minPeriod; period < maxPeriod; period++) {
-      let correlation = 0;
-      for (let i = 0; i < this.timeData.length - period; i++) {
-        correlation += this.timeData[i] * this.timeData[i + period];
-      }
-      
-      if (correlation > bestCorrelation) {
-        bestCorrelation = correlation;
-        bestPeriod = period;
-      }
+  private async loadAnalysisWorklet(): Promise<void> {
+    if (!this.audioContext?.audioWorklet) {
+      console.warn('AudioWorklet not supported, analysing on the main thread');
+      return;
     }
 
-    return bestPeriod > 0 ? this.audioContext!.sampleRate / bestPeriod : 0;
+    try {
+      await this.audioContext.audioWorklet.addModule(analysisProcessorUrl);
+      this.workletAvailable = true;
+      console.log('Analysis worklet loaded, hop size:', HOP_SIZE);
+    } catch (error) {
+      console.warn('Failed to load analysis worklet, analysing on the main thread:', error);
+      this.workletAvailable = false;
+    }
   }
 
-  private calculateChroma(): number[] {
-    const chroma = new Array(12).fill(0);
-    const nyquist = this.audioContext!.sampleRate / 2;
-    
-    for (let i = 0; i < this.bufferLength; i++) {
-      const freq = (i / this.bufferLength) * nyquist;
-      const magnitude = Math.pow(10, this.frequencyData[i] / 10);
-      
-      if (freq > 80 && freq < 5000) { // Musical range
-        const chromaIndex = Math.round(12 * Math.log2(freq / 440)) % 12;
-        if (chromaIndex >= 0 && chromaIndex < 12) {
-          chroma[chromaIndex] += magnitude;
+  private createChannel(): AnalysisChannel {
+    const channel: AnalysisChannel = new AnalysisChannel(this.audioContext!, {
+      fftSize: this.fftSize,
+      hopSize: HOP_SIZE,
+      historySeconds: FRAME_HISTORY_SECONDS,
+      useWorklet: this.workletAvailable,
+      onFrame: frame => {
+        if (this.transport?.isLoaded()) {
+          frame.trackPosition = this.transport.getPosition();
+        }
+        if (channel === this.master) {
+          this.recorder.record(frame);
         }
       }
-    }
-    
-    return chroma;
+    });
+    this.analysisConfig.forEach(message => channel.send(message));
+    return channel;
   }
 
-  // Color control methods
-  private calculateHue(bassDrum: number, snare: number, hihat: number, melody: number): number {
-    // バスドラム = 赤 (0.0), スネア = 緑 (0.33), ハイハット = 青 (0.67), メロディー = 紫 (0.8)
-    let hue = 0.0;
-    
-    if (bassDrum > 0.1) {
-      hue = 0.0; // 赤
-    } else if (snare > 0.1) {
-      hue = 0.33; // 緑
-    } else if (hihat > 0.1) {
-      hue = 0.67; // 青
-    } else if (melody > 0.1) {
-      hue = 0.8; // 紫
-    } else {
-      // 複数の要素が同時に存在する場合、重み付け平均
-      const total = bassDrum + snare + hihat + melody;
-      if (total > 0) {
-        hue = (bassDrum * 0.0 + snare * 0.33 + hihat * 0.67 + melody * 0.8) / total;
-      }
+  // Send a control message to every analysis chain. Settings are kept and
+  // replayed to chains created later; one-off commands are not.
+  private postToAnalysis(message: AnalysisProcessorMessage, key?: string): void {
+    if (key) {
+      this.analysisConfig.set(key, message);
     }
-    
-    return hue;
-  }
-
-  private calculateSaturation(rms: number, centroid: number): number {
-    // RMSが高いほど彩度が高い、スペクトル重心が高いほど彩度が高い
-    const rmsSaturation = Math.min(1.0, rms * 3.0);
-    const centroidSaturation = Math.min(1.0, centroid * 1.5);
-    return Math.max(0.3, (rmsSaturation + centroidSaturation) / 2);
+    this.master?.send(message);
+    this.sources.forEach(source => source.channel.send(message));
   }
 
-  private calculateBrightness(rms: number, bassDrum: number, hihat: number): number {
-    // バスドラムは暗く、ハイハットは明るく
-    const baseBrightness = Math.min(1.0, rms * 2.0);
-    const bassDarkness = bassDrum * 0.3; // バスドラムで暗く
-    const hihatBrightness = hihat * 0.4; // ハイハットで明るく
-    
-    return Math.max(0.1, Math.min(1.0, baseBrightness - bassDarkness + hihatBrightness));
+  private resetAnalysis(): void {
+    this.postToAnalysis({ type: 'reset' });
   }
 
   setFFTSize(size: number): void {
     this.fftSize = size;
-    this.bufferLength = size / 2;
-    this.dataArray = new Uint8Array(this.bufferLength);
-    this.frequencyData = new Float32Array(this.bufferLength);
-    this.timeData = new Float32Array(this.fftSize);
-    this.previousSpectrum = new Float32Array(this.bufferLength);
+    this.postToAnalysis({ type: 'config', fftSize: size }, 'config');
     
-    if (this.analyser) {
-      this.analyser.fftSize = size;
+    if (this.master) {
+      this.saveSettings();
     }
   }
 
+  getCrossover(): CrossoverSettings {
+    return { ...this.crossover };
+  }
+
+  // Low/Mid/High crossover frequencies (Hz); persisted with the other settings
+  updateCrossover(updates: Partial<CrossoverSettings>): void {
+    // Validate before the message is stored for replay to new channels
+    const crossover = clampCrossover({ ...this.crossover, ...updates });
+    this.postToAnalysis({ type: 'crossover', crossover }, 'crossover');
+    this.crossover = crossover;
+    this.saveSettings();
+  }
+
+  getAutoGain(): AutoGainSettings {
+    return { ...this.autoGain };
+  }
+
+  // Normalizes analysis levels towards a target loudness (LUFS). Only the
+  // analysis sees the gain; monitoring and the measured loudness do not.
+  updateAutoGain(updates: Partial<AutoGainSettings>): void {
+    const autoGain = { ...this.autoGain, ...updates };
+    this.postToAnalysis({ type: 'autoGain', settings: autoGain }, 'autoGain');
+    this.autoGain = autoGain;
+    this.saveSettings();
+  }
+
+  // Replace the named band list (see createDefaultBands for the built-in set)
+  setBands(bands: BandDefinition[]): void {
+    this.postToAnalysis({ type: 'bands', bands }, 'bands');
+  }
+
+  // Per-band onset sensitivity (0..1) and minimum inter-onset interval (seconds)
+  setOnsetConfig(band: OnsetBand, config: Partial<OnsetBandConfig>): void {
+    this.postToAnalysis({ type: 'onset', band, config }, `onset.${band}`);
+  }
+
+  // Time signature numerator for the bar/beat counters (4/4 by default)
+  setBeatsPerBar(beatsPerBar: number): void {
+    this.postToAnalysis({ type: 'meter', beatsPerBar }, 'meter');
+  }
+
+  // Tap tempo: from the second tap on, locks the tempo to the average tap
+  // interval and puts a beat on the tap. Returns the tapped BPM, if any.
+  tapTempo(): number | null {
+    const now = performance.now() / 1000;
+    const last = this.tapTimes[this.tapTimes.length - 1];
+    if (last !== undefined && now - last > TAP_TIMEOUT_SECONDS) {
+      this.tapTimes = [];
+    }
+    this.tapTimes.push(now);
+    if (this.tapTimes.length > MAX_TAPS) {
+      this.tapTimes.shift();
+    }
+    if (this.tapTimes.length < 2) return null;
+
+    const span = this.tapTimes[this.tapTimes.length - 1] - this.tapTimes[0];
+    const bpm = Math.round((60 * (this.tapTimes.length - 1) / span) * 10) / 10;
+    this.setTempoLock(bpm);
+    this.resyncBeat(false);
+    return bpm;
+  }
+
+  // Fix the beat clock to `bpm`, or hand tempo back to the detector with null
+  setTempoLock(bpm: number | null): void {
+    this.tempoLock = bpm;
+    this.postToAnalysis({ type: 'tempo', bpm }, 'tempo');
+  }
+
+  getTempoLock(): number | null {
+    return this.tempoLock;
+  }
+
+  // Lock the tempo the detector currently reports, or release an existing lock
+  toggleTempoLock(): number | null {
+    const bpm = this.master?.getLatestFrame()?.bpm ?? 120;
+    this.setTempoLock(this.tempoLock === null ? Math.round(bpm * 10) / 10 : null);
+    return this.tempoLock;
+  }
+
+  // Shift the beat phase by a fraction of a beat (negative = earlier)
+  nudgeBeat(beats: number): void {
+    this.postToAnalysis({ type: 'nudge', beats });
+  }
+
+  // "Downbeat now": the current moment becomes a beat, and with `downbeat`
+  // also the first beat of a bar
+  resyncBeat(downbeat = true): void {
+    if (!this.audioContext) return;
+
+    const time = this.audioContext.currentTime;
+    this.postToAnalysis({ type: 'resync', time, downbeat });
+  }
+
   dispose(): void {
-    if (this.microphone) {
-      this.microphone.disconnect();
-      this.microphone = null;
-    }
+    navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange);
+    this.deviceChangeListeners.clear();
+    this.sourceEndedListeners.clear();
+    this.stopMicrophone();
+    this.stopTabCapture();
+    this.stopTestSignal();
+    this.stopReplay();
+    this.recorder.stop();
     
     if (this.audioSource) {
       this.audioSource.disconnect();
       this.audioSource = null;
     }
     
+    if (this.transport) {
+      this.transport.dispose();
+      this.transport = null;
+    }
+    
+    this.getSourceIds().forEach(id => this.removeSource(id));
+    if (this.master) {
+      this.master.dispose();
+      this.master = null;
+    }
+    this.analysisConfig.clear();
+    
+    if (this.conditioner) {
+      this.conditioner.dispose();
+      this.conditioner = null;
+    }
+    this.micMonitorGain = null;
+    this.fileMonitorGain = null;
+    this.generatorMonitorGain = null;
+    
     if (this.audioElement) {
       this.audioElement.pause();
       this.audioElement = null;
@@ -0,0 +1,257 @@
+export interface TransportState {
+  isPlaying: boolean;
+  position: number; // seconds
+  duration: number; // seconds
+  loopIn: number | null;
+  loopOut: number | null;
+}
+
+interface TransportStem {
+  buffer: AudioBuffer;
+  output: GainNode;
+  source: AudioBufferSourceNode | null;
+}
+
+// Play/pause/seek/loop for a decoded file. AudioBufferSourceNode is one-shot,
+// so every play or seek creates a fresh node and re-anchors the clock.
+// Stems of the same track get their own outputs and start on the same
+// context time as the main buffer, so they stay sample-locked to it.
+export class AudioTransport {
+  readonly output: GainNode;
+  private context: AudioContext;
+  private buffer: AudioBuffer | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private stems = new Map<string, TransportStem>();
+  private playing = false;
+  private startedAt = 0; // audioContext.currentTime when the source started
+  private startOffset = 0; // track position at startedAt
+  private loopIn: number | null = null;
+  private loopOut: number | null = null;
+  private seekListeners = new Set<(position: number) => void>();
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+  }
+
+  load(buffer: AudioBuffer): void {
+    this.stopSource();
+    this.getStemIds().forEach(id => this.removeStem(id));
+    this.buffer = buffer;
+    this.playing = false;
+    this.startOffset = 0;
+    this.loopIn = null;
+    this.loopOut = null;
+  }
+
+  isLoaded(): boolean {
+    return this.buffer !== null;
+  }
+
+  getBuffer(): AudioBuffer | null {
+    return this.buffer;
+  }
+
+  // Add a stem of the loaded track; returns its output node
+  addStem(id: string, buffer: AudioBuffer): GainNode {
+    this.removeStem(id);
+    const stem: TransportStem = { buffer, output: this.context.createGain(), source: null };
+    this.stems.set(id, stem);
+
+    if (this.playing) {
+      // Join in at the current position
+      stem.source = this.startBuffer(buffer, stem.output, this.context.currentTime, this.getPosition());
+    }
+    return stem.output;
+  }
+
+  removeStem(id: string): void {
+    const stem = this.stems.get(id);
+    if (!stem) return;
+
+    this.stopNode(stem.source);
+    stem.output.disconnect();
+    this.stems.delete(id);
+  }
+
+  hasStem(id: string): boolean {
+    return this.stems.has(id);
+  }
+
+  getStemIds(): string[] {
+    return [...this.stems.keys()];
+  }
+
+  play(): void {
+    if (!this.buffer || this.playing) return;
+
+    const offset = this.clampToLoop(this.startOffset);
+    const when = this.context.currentTime;
+    this.source = this.startBuffer(this.buffer, this.output, when, offset);
+    this.stems.forEach(stem => {
+      stem.source = this.startBuffer(stem.buffer, stem.output, when, offset);
+    });
+
+    this.startOffset = offset;
+    this.startedAt = when;
+    this.playing = true;
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+
+    this.startOffset = this.getPosition();
+    this.stopSource();
+    this.playing = false;
+  }
+
+  seek(position: number): void {
+    if (!this.buffer) return;
+
+    const wasPlaying = this.playing;
+    if (wasPlaying) {
+      this.stopSource();
+      this.playing = false;
+    }
+
+    this.startOffset = this.clampToLoop(Math.max(0, Math.min(position, this.buffer.duration)));
+    this.seekListeners.forEach(listener => listener(this.startOffset));
+
+    if (wasPlaying) {
+      this.play();
+    }
+  }
+
+  setLoopIn(position: number | null): void {
+    this.updateLoop(() => {
+      this.loopIn = position;
+    });
+  }
+
+  setLoopOut(position: number | null): void {
+    this.updateLoop(() => {
+      this.loopOut = position;
+    });
+  }
+
+  clearLoop(): void {
+    this.updateLoop(() => {
+      this.loopIn = null;
+      this.loopOut = null;
+    });
+  }
+
+  getPosition(): number {
+    if (!this.buffer) return 0;
+    if (!this.playing) return this.startOffset;
+
+    const position = this.startOffset + (this.context.currentTime - this.startedAt);
+    const [start, end] = this.getLoopBounds();
+    if (position < end) return position;
+
+    return start + ((position - start) % (end - start));
+  }
+
+  getDuration(): number {
+    return this.buffer?.duration ?? 0;
+  }
+
+  getState(): TransportState {
+    return {
+      isPlaying: this.playing,
+      position: this.getPosition(),
+      duration: this.getDuration(),
+      loopIn: this.loopIn,
+      loopOut: this.loopOut
+    };
+  }
+
+  // Subscribe to discontinuities in playback position
+  onSeek(listener: (position: number) => void): () => void {
+    this.seekListeners.add(listener);
+    return () => {
+      this.seekListeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.stopSource();
+    this.getStemIds().forEach(id => this.removeStem(id));
+    this.output.disconnect();
+    this.seekListeners.clear();
+    this.buffer = null;
+    this.playing = false;
+  }
+
+  private updateLoop(change: () => void): void {
+    // Re-anchor so the position maths stays valid with the new region
+    const position = this.getPosition();
+    change();
+
+    const [start, end] = this.getLoopBounds();
+    if (this.source) {
+      this.applyLoopRegion(this.source);
+    }
+    this.stems.forEach(stem => {
+      if (stem.source) this.applyLoopRegion(stem.source);
+    });
+    if (position < start || position >= end) {
+      this.seek(start);
+    } else if (this.playing) {
+      this.startOffset = position;
+      this.startedAt = this.context.currentTime;
+    }
+  }
+
+  private getLoopBounds(): [number, number] {
+    const duration = this.getDuration();
+    const start = this.loopIn ?? 0;
+    const end = this.loopOut ?? duration;
+
+    // Ignore inverted or empty regions
+    if (end - start <= 0.01) return [0, duration];
+    return [start, end];
+  }
+
+  private applyLoopRegion(source: AudioBufferSourceNode): void {
+    const [start, end] = this.getLoopBounds();
+    source.loopStart = start;
+    source.loopEnd = end;
+  }
+
+  private clampToLoop(position: number): number {
+    const [start, end] = this.getLoopBounds();
+    if (position < start || position >= end) return start;
+    return position;
+  }
+
+  private startBuffer(buffer: AudioBuffer, output: AudioNode, when: number, offset: number): AudioBufferSourceNode {
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    this.applyLoopRegion(source);
+    source.connect(output);
+    source.start(when, offset);
+    return source;
+  }
+
+  private stopSource(): void {
+    this.stopNode(this.source);
+    this.source = null;
+    this.stems.forEach(stem => {
+      this.stopNode(stem.source);
+      stem.source = null;
+    });
+  }
+
+  private stopNode(source: AudioBufferSourceNode | null): void {
+    if (!source) return;
+
+    try {
+      source.stop();
+    } catch (error) {
+      console.log('Transport source already stopped or error:', error);
+    }
+    source.disconnect();
+  }
+}
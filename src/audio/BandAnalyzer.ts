@@ -0,0 +1,158 @@
+export interface BandDefinition {
+  id: string;
+  lowFreq: number; // Hz
+  highFreq: number; // Hz
+  attack?: number; // rise time constant (seconds)
+  release?: number; // fall time constant (seconds)
+}
+
+export interface CrossoverSettings {
+  lowMid: number; // Hz
+  midHigh: number; // Hz
+}
+
+export interface BandLevel {
+  value: number; // normalised and smoothed [0..1]
+  peak: number; // peak hold [0..1]
+  db: number; // raw band power (dB)
+}
+
+export const DEFAULT_CROSSOVER: CrossoverSettings = { lowMid: 250, midHigh: 2000 };
+// The two ranges do not overlap, and the Mid band never gets narrower than
+// CROSSOVER_MIN_RATIO (about a third of an octave)
+export const CROSSOVER_MIN_RATIO = 1.25;
+export const CROSSOVER_RANGE = {
+  lowMid: { min: 60, max: 640 },
+  midHigh: { min: 800, max: 8000 }
+};
+
+// Clamp both frequencies into range and keep midHigh above lowMid. Crossover
+// settings from the UI or localStorage go through this before reaching the
+// analysis, which rejects an empty Mid band.
+export const clampCrossover = (crossover: CrossoverSettings): CrossoverSettings => {
+  const clamp = (value: number, range: { min: number; max: number }, fallback: number) =>
+    Number.isFinite(value) ? Math.min(range.max, Math.max(range.min, value)) : fallback;
+  const lowMid = clamp(crossover.lowMid, CROSSOVER_RANGE.lowMid, DEFAULT_CROSSOVER.lowMid);
+  const midHigh = clamp(crossover.midHigh, CROSSOVER_RANGE.midHigh, DEFAULT_CROSSOVER.midHigh);
+  return { lowMid, midHigh: Math.max(midHigh, lowMid * CROSSOVER_MIN_RATIO) };
+};
+
+// Upper edge of the "high" band
+const HIGH_BAND_LIMIT = 16000;
+const DEFAULT_ATTACK = 0.01;
+const DEFAULT_RELEASE = 0.15;
+// Auto-ranging: the ceiling follows the loudest recent level and relaxes
+// slowly; the floor sits a fixed dynamic range below it
+const DYNAMIC_RANGE_DB = 40;
+const CEILING_RELEASE_DB_PER_SECOND = 2;
+const ABSOLUTE_FLOOR_DB = -100;
+// Peak hold
+const PEAK_HOLD_SECONDS = 0.5;
+const PEAK_FALL_PER_SECOND = 1.0;
+
+// Low/Mid/High from the crossover plus the instrument-range bands that
+// renderers already read off AnalysisFrame
+export const createDefaultBands = (crossover: CrossoverSettings = DEFAULT_CROSSOVER): BandDefinition[] => [
+  { id: 'low', lowFreq: 0, highFreq: crossover.lowMid },
+  { id: 'mid', lowFreq: crossover.lowMid, highFreq: crossover.midHigh },
+  { id: 'high', lowFreq: crossover.midHigh, highFreq: HIGH_BAND_LIMIT },
+  { id: 'bassDrum', lowFreq: 60, highFreq: 80 },
+  { id: 'snare', lowFreq: 200, highFreq: 300, release: 0.1 },
+  { id: 'hihat', lowFreq: 8000, highFreq: 12000, release: 0.08 },
+  { id: 'kick', lowFreq: 40, highFreq: 100 },
+  { id: 'vocal', lowFreq: 300, highFreq: 3400, release: 0.25 },
+  { id: 'melody', lowFreq: 200, highFreq: 2000, release: 0.25 }
+];
+
+interface BandState {
+  smoothed: number;
+  peak: number;
+  peakTime: number;
+  ceiling: number;
+}
+
+// Named frequency bands with auto-ranged 0..1 levels, per-band attack/release
+// smoothing and peak hold. Works on linear magnitudes, so the result does not
+// depend on the FFT size.
+export class BandAnalyzer {
+  private bands: BandDefinition[];
+  private states = new Map<string, BandState>();
+  private lastTime: number | null = null;
+
+  constructor(bands: BandDefinition[] = createDefaultBands()) {
+    this.bands = [];
+    this.setBands(bands);
+  }
+
+  setBands(bands: BandDefinition[]): void {
+    for (const band of bands) {
+      if (!(band.highFreq > band.lowFreq)) {
+        throw new Error(`Invalid band "${band.id}": ${band.lowFreq}-${band.highFreq} Hz`);
+      }
+    }
+
+    this.bands = bands.map(band => ({ ...band }));
+    // Keep the running range of bands that survive the change
+    const ids = new Set(bands.map(band => band.id));
+    for (const id of this.states.keys()) {
+      if (!ids.has(id)) this.states.delete(id);
+    }
+  }
+
+  getBands(): BandDefinition[] {
+    return this.bands.map(band => ({ ...band }));
+  }
+
+  reset(): void {
+    this.states.clear();
+    this.lastTime = null;
+  }
+
+  // `magnitudes` are linear bin magnitudes, bin i centred on i * binWidth Hz
+  process(magnitudes: Float32Array, binWidth: number, time: number): Record<string, BandLevel> {
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    const levels: Record<string, BandLevel> = {};
+    for (const band of this.bands) {
+      const startBin = Math.max(0, Math.floor(band.lowFreq / binWidth));
+      const endBin = Math.min(magnitudes.length, Math.max(startBin + 1, Math.ceil(band.highFreq / binWidth)));
+
+      let power = 0;
+      for (let i = startBin; i < endBin; i++) {
+        power += magnitudes[i] * magnitudes[i];
+      }
+      const db = Math.max(ABSOLUTE_FLOOR_DB, 10 * Math.log10(power + 1e-12));
+
+      let state = this.states.get(band.id);
+      if (!state) {
+        state = { smoothed: 0, peak: 0, peakTime: time, ceiling: ABSOLUTE_FLOOR_DB + DYNAMIC_RANGE_DB };
+        this.states.set(band.id, state);
+      }
+
+      state.ceiling = Math.max(
+        db,
+        ABSOLUTE_FLOOR_DB + DYNAMIC_RANGE_DB,
+        state.ceiling - CEILING_RELEASE_DB_PER_SECOND * dt
+      );
+      const floor = state.ceiling - DYNAMIC_RANGE_DB;
+      const target = Math.max(0, Math.min(1, (db - floor) / DYNAMIC_RANGE_DB));
+
+      const timeConstant = target > state.smoothed
+        ? band.attack ?? DEFAULT_ATTACK
+        : band.release ?? DEFAULT_RELEASE;
+      state.smoothed += (target - state.smoothed) * (1 - Math.exp(-dt / timeConstant));
+
+      if (state.smoothed >= state.peak) {
+        state.peak = state.smoothed;
+        state.peakTime = time;
+      } else if (time - state.peakTime > PEAK_HOLD_SECONDS) {
+        state.peak = Math.max(state.smoothed, state.peak - PEAK_FALL_PER_SECOND * dt);
+      }
+
+      levels[band.id] = { value: state.smoothed, peak: state.peak, db };
+    }
+
+    return levels;
+  }
+}
@@ -0,0 +1,412 @@
+export interface BeatTrackerOptions {
+  beatsPerBar?: number;
+  minBpm?: number;
+  maxBpm?: number;
+}
+
+export interface BeatState {
+  bpm: number;
+  beatPhase: number; // [0..1)
+  beat: number; // beat within the bar (0..beatsPerBar-1)
+  bar: number; // bars since the tracker locked on
+  tempoConfidence: number; // 0..1 (1 while the tempo is locked)
+  tempoLocked: boolean;
+  isBeat: boolean; // a beat boundary passed during this frame
+}
+
+const DEFAULT_BPM = 120;
+// Onset envelope is resampled to a fixed rate so irregular frame timing
+// (main-thread fallback) does not skew the autocorrelation lags
+const ENVELOPE_RATE = 100;
+const ENVELOPE_SECONDS = 8;
+// Tempo and phase are re-estimated at this interval
+const ESTIMATE_INTERVAL = 0.5;
+// A different tempo has to win this many estimates in a row before it is adopted
+const TEMPO_SWITCH_VOTES = 3;
+const TEMPO_TOLERANCE = 0.04;
+// Phase correction gain while locked / while acquiring
+const PHASE_GAIN_LOCKED = 0.15;
+const PHASE_GAIN_ACQUIRE = 0.5;
+const LOCK_CONFIDENCE = 0.3;
+
+// Log-Gaussian weighting around 120 BPM to resolve half/double tempo ambiguity
+export const tempoPrior = (bpm: number): number => {
+  const octaves = Math.log2(bpm / DEFAULT_BPM);
+  return Math.exp(-0.5 * octaves * octaves);
+};
+
+export interface TempoEstimate {
+  bpm: number;
+  period: number; // envelope samples per beat, with sub-sample precision
+  confidence: number; // 0..1 (autocorrelation at the period / energy)
+}
+
+// Tempo by autocorrelation of an onset envelope sampled at `rate` per second:
+// the strongest lag between minBpm and maxBpm under tempoPrior, refined by
+// parabolic interpolation. Shared by the live tracker and the offline grid.
+// Null when the envelope holds no onsets.
+export const estimateTempo = (
+  envelope: Float32Array,
+  rate: number,
+  minBpm: number,
+  maxBpm: number
+): TempoEstimate | null => {
+  const minLag = Math.max(2, Math.floor((60 / maxBpm) * rate));
+  const maxLag = Math.min(Math.ceil((60 / minBpm) * rate), envelope.length - 2);
+  if (maxLag < minLag) return null;
+
+  let mean = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    mean += envelope[i];
+  }
+  mean /= envelope.length;
+  let energy = 0;
+  for (let i = 0; i < envelope.length; i++) {
+    energy += (envelope[i] - mean) * (envelope[i] - mean);
+  }
+  if (energy / envelope.length < 1e-8) return null;
+
+  const acf = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += (envelope[i] - mean) * (envelope[i - lag] - mean);
+    }
+    acf[lag] = sum / (envelope.length - lag);
+  }
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const score = acf[lag] * tempoPrior((60 * rate) / lag);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === 0) return null;
+
+  // Parabolic interpolation for sub-sample lag precision
+  const a = acf[bestLag - 1], b = acf[bestLag], c = acf[bestLag + 1];
+  const denominator = a - 2 * b + c;
+  const shift = denominator < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+  const period = bestLag + shift;
+  return {
+    bpm: (60 * rate) / period,
+    period,
+    confidence: Math.max(0, Math.min(1, b / (energy / envelope.length)))
+  };
+};
+
+// Tempo by autocorrelation of the onset envelope plus a phase-locked beat
+// clock. The clock free-runs between estimates, so tempo and phase survive
+// short gaps in the onsets (breakdowns, fills).
+export class BeatTracker {
+  private beatsPerBar: number;
+  private minBpm: number;
+  private maxBpm: number;
+
+  private envelope = new Float32Array(ENVELOPE_RATE * ENVELOPE_SECONDS);
+  private envelopeIndex = 0; // total slots written
+  private lastTime: number | null = null;
+  private lastStrength = 0;
+  private nextEstimateTime = 0;
+
+  private bpm = DEFAULT_BPM;
+  private confidence = 0;
+  private candidateBpm = 0;
+  private candidateVotes = 0;
+
+  // Manual overrides
+  private lockedBpm: number | null = null;
+  private phaseOffset = 0; // user nudge on the detected phase (beats)
+  private manualDownbeat = false;
+
+  private phase = 0;
+  private beatCount = 0;
+  private bar = 0;
+  private beatAccent = 0; // low-band accent gathered at the start of the current beat
+  private nextBeatAccent = 0; // accent arriving just before the next beat
+  private downbeatScores: number[];
+  private downbeatOffset = 0;
+
+  constructor(options: BeatTrackerOptions = {}) {
+    this.beatsPerBar = options.beatsPerBar ?? 4;
+    this.minBpm = options.minBpm ?? 60;
+    this.maxBpm = options.maxBpm ?? 180;
+    this.downbeatScores = new Array(this.beatsPerBar).fill(0);
+  }
+
+  setBeatsPerBar(beatsPerBar: number): void {
+    if (!Number.isInteger(beatsPerBar) || beatsPerBar < 1) {
+      throw new Error(`Invalid beats per bar: ${beatsPerBar}`);
+    }
+    this.beatsPerBar = beatsPerBar;
+    this.downbeatScores = new Array(beatsPerBar).fill(0);
+    this.downbeatOffset = 0;
+  }
+
+  getBeatsPerBar(): number {
+    return this.beatsPerBar;
+  }
+
+  // Fix the tempo (null hands it back to the detector). Phase keeps
+  // following the onsets, including any nudge/resync bias.
+  lockTempo(bpm: number | null): void {
+    if (bpm !== null && !(bpm > 0)) {
+      throw new Error(`Invalid BPM: ${bpm}`);
+    }
+    this.lockedBpm = bpm;
+    this.candidateVotes = 0;
+    if (bpm !== null) {
+      this.bpm = bpm;
+    }
+  }
+
+  // Shift the beat clock by a fraction of a beat; the shift is kept as a bias
+  // on the detected phase so the next correction does not undo it
+  nudge(beats: number): void {
+    this.phaseOffset += beats;
+    this.setPhase(this.phase + beats);
+  }
+
+  // Declare that a beat (and with `downbeat`, bar 1 beat 1) happened at `time`
+  resync(time: number, downbeat = true): void {
+    const elapsed = this.lastTime === null ? 0 : Math.max(0, this.lastTime - time) * (this.bpm / 60);
+    const phase = elapsed % 1;
+    let shift = phase - this.phase;
+    shift -= Math.round(shift);
+    this.phaseOffset += shift;
+    this.phase = phase;
+
+    if (downbeat) {
+      // The current beat becomes beat 0 of a new bar
+      this.downbeatOffset = this.beatCount % this.beatsPerBar;
+      this.manualDownbeat = true;
+      this.bar++;
+    }
+  }
+
+  reset(): void {
+    this.envelope.fill(0);
+    this.envelopeIndex = 0;
+    this.lastTime = null;
+    this.lastStrength = 0;
+    this.nextEstimateTime = 0;
+    this.bpm = this.lockedBpm ?? DEFAULT_BPM;
+    this.confidence = 0;
+    this.candidateBpm = 0;
+    this.candidateVotes = 0;
+    this.phase = 0;
+    this.beatCount = 0;
+    this.bar = 0;
+    this.beatAccent = 0;
+    this.nextBeatAccent = 0;
+    this.downbeatScores.fill(0);
+    this.downbeatOffset = 0;
+    this.phaseOffset = 0;
+    this.manualDownbeat = false;
+  }
+
+  // `strength` is the full-band onset flux, `accent` the low-band flux used to
+  // guess which beat is the downbeat. `time` is in seconds and must not go back.
+  process(strength: number, accent: number, time: number): BeatState {
+    if (this.lastTime === null) {
+      this.lastTime = time;
+      this.nextEstimateTime = time + ESTIMATE_INTERVAL;
+      this.lastStrength = strength;
+      return this.getState(false);
+    }
+
+    const dt = Math.max(0, time - this.lastTime);
+    const beatCount = this.beatCount;
+    this.appendEnvelope(strength, this.lastTime, time);
+    this.lastTime = time;
+
+    // Free-running clock
+    this.phase += dt * (this.bpm / 60);
+    this.collectAccent(accent);
+    while (this.phase >= 1) {
+      this.phase -= 1;
+      this.completeBeat();
+    }
+
+    if (time >= this.nextEstimateTime) {
+      this.nextEstimateTime = time + ESTIMATE_INTERVAL;
+      this.estimate();
+    }
+
+    return this.getState(this.beatCount !== beatCount);
+  }
+
+  private getState(isBeat: boolean): BeatState {
+    const n = this.beatsPerBar;
+    const counted = this.beatCount - this.downbeatOffset;
+    return {
+      bpm: this.bpm,
+      beatPhase: this.phase,
+      beat: ((counted % n) + n) % n,
+      bar: this.bar,
+      tempoConfidence: this.lockedBpm !== null ? 1 : this.confidence,
+      tempoLocked: this.lockedBpm !== null,
+      isBeat
+    };
+  }
+
+  private appendEnvelope(strength: number, from: number, to: number): void {
+    // Linear interpolation between frames onto the fixed-rate grid
+    const slots = Math.max(0, Math.floor(to * ENVELOPE_RATE) - Math.floor(from * ENVELOPE_RATE));
+    const size = this.envelope.length;
+    for (let s = 1; s <= slots; s++) {
+      const t = s / slots;
+      const index = this.envelopeIndex % size;
+      this.envelope[index] = this.lastStrength + (strength - this.lastStrength) * t;
+      this.envelopeIndex++;
+    }
+    // Several frames inside one slot: keep the strongest
+    this.lastStrength = slots > 0 ? strength : Math.max(this.lastStrength, strength);
+  }
+
+  // Onsets within a quarter beat of a tick count towards that beat
+  private collectAccent(accent: number): void {
+    if (this.phase < 0.25) {
+      this.beatAccent = Math.max(this.beatAccent, accent);
+    } else if (this.phase > 0.75) {
+      this.nextBeatAccent = Math.max(this.nextBeatAccent, accent);
+    }
+  }
+
+  private completeBeat(): void {
+    // Downbeat guess: the bar position that keeps collecting the most bass
+    const n = this.beatsPerBar;
+    const position = this.beatCount % n;
+    for (let i = 0; i < n; i++) {
+      this.downbeatScores[i] *= 0.95;
+    }
+    this.downbeatScores[position] += this.beatAccent;
+    this.beatAccent = this.nextBeatAccent;
+    this.nextBeatAccent = 0;
+
+    // A manual "downbeat now" pins the bar line until the next reset
+    if (!this.manualDownbeat) {
+      let best = this.downbeatOffset;
+      for (let i = 0; i < n; i++) {
+        if (this.downbeatScores[i] > this.downbeatScores[best]) best = i;
+      }
+      // Only move the bar line on a clear winner
+      if (this.downbeatScores[best] > this.downbeatScores[this.downbeatOffset] * 1.5) {
+        this.downbeatOffset = best;
+      }
+    }
+
+    this.beatCount++;
+    if ((this.beatCount - this.downbeatOffset) % n === 0) {
+      this.bar++;
+    }
+  }
+
+  // Centred copy of the envelope, oldest first
+  private readEnvelope(): Float32Array {
+    const size = this.envelope.length;
+    const length = Math.min(this.envelopeIndex, size);
+    const out = new Float32Array(length);
+    const start = this.envelopeIndex - length;
+    let mean = 0;
+    for (let i = 0; i < length; i++) {
+      out[i] = this.envelope[(start + i) % size];
+      mean += out[i];
+    }
+    mean /= Math.max(1, length);
+    for (let i = 0; i < length; i++) {
+      out[i] -= mean;
+    }
+    return out;
+  }
+
+  private estimate(): void {
+    const envelope = this.readEnvelope();
+    // Need a couple of periods before the autocorrelation means anything
+    if (envelope.length < Math.ceil((60 / this.minBpm) * ENVELOPE_RATE) * 2) return;
+
+    const tempo = estimateTempo(envelope, ENVELOPE_RATE, this.minBpm, this.maxBpm);
+    if (!tempo) {
+      // Onsets dropped out: hold tempo and let the clock coast
+      this.confidence *= 0.9;
+      return;
+    }
+
+    if (this.lockedBpm === null) {
+      this.updateTempo(tempo.bpm, tempo.confidence);
+    }
+    this.updatePhase(envelope);
+  }
+
+  private updateTempo(bpm: number, measuredConfidence: number): void {
+    const ratio = bpm / this.bpm;
+    const confident = this.confidence >= LOCK_CONFIDENCE;
+
+    if (Math.abs(ratio - 1) <= TEMPO_TOLERANCE || !confident) {
+      // Same tempo (or nothing to protect yet): follow smoothly
+      this.bpm = confident ? this.bpm * 0.8 + bpm * 0.2 : bpm;
+      this.candidateVotes = 0;
+      this.confidence = this.confidence * 0.7 + measuredConfidence * 0.3;
+      return;
+    }
+
+    // A different tempo while locked must persist before it wins
+    if (this.candidateBpm > 0 && Math.abs(bpm / this.candidateBpm - 1) <= TEMPO_TOLERANCE) {
+      this.candidateVotes++;
+    } else {
+      this.candidateBpm = bpm;
+      this.candidateVotes = 1;
+    }
+
+    if (this.candidateVotes >= TEMPO_SWITCH_VOTES) {
+      this.bpm = this.candidateBpm;
+      this.candidateVotes = 0;
+      this.confidence = measuredConfidence * 0.5;
+    } else {
+      this.confidence *= 0.9;
+    }
+  }
+
+  // Comb over the recent envelope: the offset whose beat positions collect the
+  // most onset energy gives the measured phase, which the clock is pulled towards.
+  private updatePhase(envelope: Float32Array): void {
+    const period = (60 * ENVELOPE_RATE) / this.bpm;
+    const last = envelope.length - 1;
+    const beats = Math.floor(envelope.length / period) - 1;
+    if (beats < 2) return;
+
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+    for (let offset = 0; offset < Math.ceil(period); offset++) {
+      let score = 0;
+      for (let k = 0; k < beats; k++) {
+        score += envelope[Math.round(last - offset - k * period)];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+
+    // The last beat was `bestOffset` slots ago
+    const measured = bestOffset / period + this.phaseOffset;
+    let error = measured - this.phase;
+    error -= Math.round(error); // wrap to [-0.5, 0.5)
+
+    const settled = this.confidence >= LOCK_CONFIDENCE || this.lockedBpm !== null;
+    const gain = settled ? PHASE_GAIN_LOCKED : PHASE_GAIN_ACQUIRE;
+    this.setPhase(this.phase + error * gain);
+  }
+
+  private setPhase(phase: number): void {
+    // Never pull the clock back across a beat it has already counted
+    this.phase = Math.max(0, phase);
+    while (this.phase >= 1) {
+      this.phase -= 1;
+      this.completeBeat();
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import type { AnalysisFrame } from './AnalysisFrame';
+import type { SectionLabel } from './SectionDetector';
+
+export type EventBand = 'low' | 'mid' | 'high' | 'full';
+
+// Every bus event has a time, a band and an energy so filters work across
+// kinds; events that are not band-specific use 'full'.
+interface BusEventBase {
+  t: number; // seconds, on the frame clock
+  band: EventBand;
+  energy: number; // 0..1
+}
+
+export interface OnsetBusEvent extends BusEventBase {
+  kind: 'onset';
+  pitch?: number;
+  centroid?: number;
+}
+
+// energy = tempo confidence, so `minEnergy` skips beats of a guessed tempo
+export interface BeatBusEvent extends BusEventBase {
+  kind: 'beat' | 'downbeat';
+  beat: number; // beat within the bar
+  bar: number;
+  bpm: number;
+}
+
+export interface BarBusEvent extends BusEventBase {
+  kind: 'bar';
+  bar: number;
+  bpm: number;
+}
+
+export interface PitchChangeBusEvent extends BusEventBase {
+  kind: 'pitchChange';
+  pitch: number; // MIDI note
+  previousPitch?: number; // undefined when coming from silence
+}
+
+export interface NoteOnBusEvent extends BusEventBase {
+  kind: 'noteOn';
+  pitch: number;
+}
+
+export interface NoteOffBusEvent extends BusEventBase {
+  kind: 'noteOff';
+  pitch: number;
+  duration: number; // seconds
+}
+
+export interface SectionBusEvent extends BusEventBase {
+  kind: 'section';
+  section: SectionLabel;
+}
+
+export interface SilenceStartBusEvent extends BusEventBase {
+  kind: 'silenceStart';
+}
+
+export interface SilenceEndBusEvent extends BusEventBase {
+  kind: 'silenceEnd';
+  duration: number; // seconds of silence
+}
+
+export type BusEvent =
+  | OnsetBusEvent
+  | BeatBusEvent
+  | BarBusEvent
+  | PitchChangeBusEvent
+  | NoteOnBusEvent
+  | NoteOffBusEvent
+  | SectionBusEvent
+  | SilenceStartBusEvent
+  | SilenceEndBusEvent;
+
+export type BusEventKind = BusEvent['kind'];
+export type BusEventOf<K extends BusEventKind> = Extract<BusEvent, { kind: K }>;
+
+export interface BusEventFilter<K extends BusEventKind = BusEventKind> {
+  kind?: K | K[];
+  band?: EventBand | EventBand[];
+  minEnergy?: number;
+}
+
+export interface EventBusOptions {
+  silenceThresholdDb?: number; // RMS (dBFS) below which the input counts as silent
+  silenceHold?: number; // seconds of silence before silenceStart
+  pitchHold?: number; // frames a new pitch must hold before it counts
+  minPitchClarity?: number;
+}
+
+interface Subscription {
+  filter: BusEventFilter;
+  listener: (event: BusEvent) => void;
+}
+
+interface HeldNote {
+  pitch: number;
+  t: number;
+  energy: number;
+}
+
+const DEFAULT_OPTIONS: Required<EventBusOptions> = {
+  silenceThresholdDb: -60,
+  silenceHold: 0.25,
+  pitchHold: 3,
+  minPitchClarity: 0.5
+};
+
+const asList = <T>(value: T | T[] | undefined): T[] | null =>
+  value === undefined ? null : Array.isArray(value) ? value : [value];
+
+const matches = (filter: BusEventFilter, event: BusEvent): boolean => {
+  const kinds = asList(filter.kind);
+  const bands = asList(filter.band);
+  return (!kinds || kinds.includes(event.kind))
+    && (!bands || bands.includes(event.band))
+    && event.energy >= (filter.minEnergy ?? 0);
+};
+
+// Typed events derived from the AnalysisFrame stream, pushed to subscribers.
+// Detection depends only on the frames, and listeners run synchronously in
+// subscription order, so a recorded session always produces the same events.
+export class EventBus {
+  private options: Required<EventBusOptions>;
+  private subscriptions = new Set<Subscription>();
+  private lastFrame: AnalysisFrame | null = null;
+  private note: HeldNote | null = null;
+  private candidatePitch: number | undefined = undefined;
+  private candidateFrames = 0;
+  private candidateTime = 0;
+  private quietSince: number | null = null; // when the level fell below the threshold
+  private silentSince: number | null = null; // start of the silence that emitted silenceStart
+
+  constructor(options: EventBusOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Listen to events matching `filter`; the listener is typed by its kinds.
+  // Returns the unsubscribe function.
+  subscribe<K extends BusEventKind = BusEventKind>(
+    filter: BusEventFilter<K>,
+    listener: (event: BusEventOf<K>) => void
+  ): () => void {
+    const subscription: Subscription = {
+      filter,
+      listener: listener as (event: BusEvent) => void
+    };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  // Shorthand for subscribing to one kind
+  on<K extends BusEventKind>(kind: K, listener: (event: BusEventOf<K>) => void): () => void {
+    return this.subscribe({ kind }, listener);
+  }
+
+  publish(event: BusEvent): void {
+    this.subscriptions.forEach(subscription => {
+      if (matches(subscription.filter, event)) {
+        subscription.listener(event);
+      }
+    });
+  }
+
+  // Detect and publish the events of one frame, oldest first. Frames must
+  // arrive in time order, as getAnalysisFramesSince delivers them.
+  publishFrame(frame: AnalysisFrame): BusEvent[] {
+    const events = this.detect(frame);
+    this.lastFrame = frame;
+    events.forEach(event => this.publish(event));
+    return events;
+  }
+
+  // Forget detector state, e.g. when the source or the replay position jumps
+  reset(): void {
+    this.lastFrame = null;
+    this.note = null;
+    this.candidatePitch = undefined;
+    this.candidateFrames = 0;
+    this.quietSince = null;
+    this.silentSince = null;
+  }
+
+  private detect(frame: AnalysisFrame): BusEvent[] {
+    const events: BusEvent[] = frame.onsets.map(onset => ({
+      kind: 'onset',
+      t: onset.time,
+      band: onset.band,
+      energy: onset.energy,
+      pitch: frame.pitch,
+      centroid: frame.centroid
+    }));
+
+    this.detectBeat(frame, events);
+    this.detectNotes(frame, events);
+    this.detectSilence(frame, events);
+
+    if (frame.sectionChange) {
+      events.push({
+        kind: 'section',
+        t: frame.time,
+        band: 'full',
+        energy: frame.sectionChange.novelty,
+        section: frame.sectionChange.label
+      });
+    }
+
+    // Stable sort keeps detection order for events at the same time
+    return events.sort((a, b) => a.t - b.t);
+  }
+
+  private detectBeat(frame: AnalysisFrame, events: BusEvent[]): void {
+    const previous = this.lastFrame;
+    if (!previous || !frame.bpm) return;
+
+    // The beat clock wrapped: a beat fell between the two frames
+    if (frame.beatPhase >= previous.beatPhase && frame.bar === previous.bar) return;
+
+    const t = frame.time - frame.beatPhase * (60 / frame.bpm);
+    const beat = { t, band: 'full' as const, energy: frame.tempoConfidence, beat: frame.beat, bar: frame.bar, bpm: frame.bpm };
+    events.push({ kind: 'beat', ...beat });
+    if (frame.beat === 0) {
+      events.push({ kind: 'downbeat', ...beat });
+    }
+    if (frame.bar !== previous.bar) {
+      events.push({ kind: 'bar', t, band: 'full', energy: frame.tempoConfidence, bar: frame.bar, bpm: frame.bpm });
+    }
+  }
+
+  // A pitch has to hold for `pitchHold` frames before it counts, so vibrato
+  // and octave flicker do not spray notes
+  private detectNotes(frame: AnalysisFrame, events: BusEvent[]): void {
+    const clear = (frame.pitchClarity ?? 0) >= this.options.minPitchClarity;
+    const pitch = clear ? frame.pitch : undefined;
+
+    if (pitch !== this.candidatePitch) {
+      this.candidatePitch = pitch;
+      this.candidateFrames = 0;
+      this.candidateTime = frame.time;
+    }
+    this.candidateFrames++;
+    if (this.candidateFrames < this.options.pitchHold) return;
+
+    const held = this.note;
+    // A full-band onset on the held pitch re-strikes the note
+    const restruck = held !== null && pitch === held.pitch && frame.onsets.some(onset => onset.band === 'full');
+    if (held?.pitch === pitch && !restruck) return;
+
+    const t = restruck ? frame.time : this.candidateTime;
+    if (held) {
+      events.push({ kind: 'noteOff', t, band: 'full', energy: held.energy, pitch: held.pitch, duration: t - held.t });
+    }
+    if (pitch === undefined) {
+      this.note = null;
+      return;
+    }
+
+    const energy = Math.min(1, frame.rms * 3);
+    if (!restruck) {
+      events.push({ kind: 'pitchChange', t, band: 'full', energy: frame.pitchClarity ?? 0, pitch, previousPitch: held?.pitch });
+    }
+    events.push({ kind: 'noteOn', t, band: 'full', energy, pitch });
+    this.note = { pitch, t, energy };
+  }
+
+  private detectSilence(frame: AnalysisFrame, events: BusEvent[]): void {
+    const db = 20 * Math.log10(Math.max(frame.rms, 1e-10));
+    if (db >= this.options.silenceThresholdDb) {
+      if (this.silentSince !== null) {
+        events.push({ kind: 'silenceEnd', t: frame.time, band: 'full', energy: 0, duration: frame.time - this.silentSince });
+      }
+      this.quietSince = null;
+      this.silentSince = null;
+      return;
+    }
+
+    if (this.quietSince === null) {
+      this.quietSince = frame.time;
+    }
+    if (this.silentSince === null && frame.time - this.quietSince >= this.options.silenceHold) {
+      this.silentSince = this.quietSince;
+      events.push({ kind: 'silenceStart', t: this.quietSince, band: 'full', energy: 0 });
+    }
+  }
+}
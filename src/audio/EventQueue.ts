@@ -1,17 +1,135 @@
-import type { AudioEvent } from './AudioEngine';
+import type { AnalysisFrame, AudioEvent } from './AnalysisFrame';
+
+// The events a frame produces: one per onset at its analysis timestamp, plus
+// a section event when the frame marks a section boundary
+export const eventsFromFrame = (frame: AnalysisFrame): AudioEvent[] => {
+  const events: AudioEvent[] = frame.onsets.map(onset => ({
+    t: onset.time,
+    band: onset.band,
+    energy: onset.energy,
+    pitch: frame.pitch,
+    centroid: frame.centroid
+  }));
+  if (frame.sectionChange) {
+    events.push({
+      t: frame.time,
+      kind: 'section',
+      band: 'full',
+      energy: frame.sectionChange.novelty,
+      section: frame.sectionChange.label
+    });
+  }
+  return events;
+};
+
+export interface QuantizeSettings {
+  enabled: boolean;
+  division: number; // slots per beat (2 = 8ths, 4 = 16ths)
+  swing: number; // off-beat slot delay [0..1] (0 = straight, 0.66 ≈ triplets)
+  lookAhead: number; // seconds after a slot that still count as on it
+}
+
+export const DEFAULT_QUANTIZE: QuantizeSettings = {
+  enabled: false,
+  division: 4,
+  swing: 0,
+  lookAhead: 0.03
+};
+
+// Memory integrators: one per onset band plus one for section changes
+export type MemoryKey = AudioEvent['band'] | 'section';
+
+export interface MemorySettings {
+  halfLife: number; // seconds
+  weight: number; // multiplies event energy (bandWeight)
+}
+
+export const MEMORY_KEYS: MemoryKey[] = ['low', 'mid', 'high', 'full', 'section'];
+
+const DEFAULT_HALF_LIFE = 1.5; // seconds
+
+// Lows linger, highs fade fast; a section change colours the next bars.
+// Half-lives are for the default EventQueue half-life and scale with it.
+export const DEFAULT_MEMORY: Record<MemoryKey, MemorySettings> = {
+  low: { halfLife: 2.0, weight: 1 },
+  mid: { halfLife: 1.2, weight: 0.8 },
+  high: { halfLife: 0.8, weight: 0.6 },
+  full: { halfLife: 1.5, weight: 1 },
+  section: { halfLife: 4.0, weight: 1 }
+};
+
+const memoryKey = (event: AudioEvent): MemoryKey => (event.kind === 'section' ? 'section' : event.band);
+const saturate = (level: number): number => 1 - Math.exp(-level);
+
+// Leaky integrator: every event adds energy * weight, and the level halves
+// every halfLife seconds. EventQueue reads it as 1 - e^-level, which stays in
+// 0-1 without clipping under a dense beat.
+class MemoryIntegrator {
+  private settings: MemorySettings;
+  private level = 0;
+  private time = -Infinity; // time `level` was last brought up to (seconds)
+
+  constructor(settings: MemorySettings) {
+    this.settings = { ...settings };
+  }
+
+  configure(settings: Partial<MemorySettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  getSettings(): MemorySettings {
+    return { ...this.settings };
+  }
+
+  add(t: number, energy: number): void {
+    const amount = energy * this.settings.weight;
+    if (t >= this.time) {
+      this.level = this.getLevel(t) + amount;
+      this.time = t;
+    } else {
+      // Late arrival: decay it to the current reference time
+      this.level += amount * this.decay(this.time - t);
+    }
+  }
+
+  // Level at `t`, decayed since the last event
+  getLevel(t: number): number {
+    if (this.level === 0) return 0;
+    return t > this.time ? this.level * this.decay(t - this.time) : this.level;
+  }
+
+  reset(): void {
+    this.level = 0;
+    this.time = -Infinity;
+  }
+
+  private decay(age: number): number {
+    return Math.pow(0.5, age / Math.max(1e-3, this.settings.halfLife));
+  }
+}
 
 export class EventQueue {
   private events: AudioEvent[] = [];
-  private halfLife = 1.5; // seconds
+  private memories = new Map<MemoryKey, MemoryIntegrator>(
+    MEMORY_KEYS.map(key => [key, new MemoryIntegrator(DEFAULT_MEMORY[key])])
+  );
+  private halfLife = DEFAULT_HALF_LIFE;
   private clusterWindow = 0.03; // 30ms clustering window
+  private quantize: QuantizeSettings = { ...DEFAULT_QUANTIZE };
+  private beatTime: number | null = null; // time of the latest beat (seconds)
+  private beatLength = 0.5; // seconds
 
-  constructor(halfLife: number = 1.5) {
-    this.halfLife = halfLife;
+  constructor(halfLife: number = DEFAULT_HALF_LIFE) {
+    this.setHalfLife(halfLife);
   }
 
   push(event: AudioEvent): void {
-    // Cluster nearby events
-    const clusteredEvent = this.clusterEvent(event);
+    // Memory hears every event as it happened, quantized or not
+    this.memories.get(memoryKey(event))!.add(event.t, event.energy);
+
+    // Snap to the beat grid first so events landing on one slot cluster
+    const scheduledEvent = this.scheduleEvent(event);
+    const clusteredEvent = this.clusterEvent(scheduledEvent);
     if (clusteredEvent) {
       this.events.push(clusteredEvent);
     }
@@ -34,6 +152,46 @@ export class EventQueue {
     return relevantEvents;
   }
 
+  // Beat clock for the quantizer, from the latest analysis frame. Without a
+  // tempo the grid is off and events pass straight through.
+  setBeatClock(time: number, beatPhase: number, bpm: number | undefined): void {
+    if (!bpm || bpm <= 0) {
+      this.beatTime = null;
+      return;
+    }
+    this.beatLength = 60 / bpm;
+    this.beatTime = time - beatPhase * this.beatLength;
+  }
+
+  setQuantize(settings: Partial<QuantizeSettings>): void {
+    this.quantize = { ...this.quantize, ...settings };
+  }
+
+  getQuantize(): QuantizeSettings {
+    return { ...this.quantize };
+  }
+
+  // Delays an event to the next grid slot; popSince releases it at that time.
+  // Events already late by up to lookAhead belong to the slot just passed and
+  // go out at once.
+  private scheduleEvent(event: AudioEvent): AudioEvent {
+    if (!this.quantize.enabled || this.beatTime === null || event.kind === 'section') {
+      return event;
+    }
+
+    const slotLength = this.beatLength / Math.max(1, Math.round(this.quantize.division));
+    const swingDelay = Math.max(0, Math.min(1, this.quantize.swing)) * slotLength / 2;
+    const slotTime = (slot: number) =>
+      this.beatTime! + slot * slotLength + (Math.abs(slot % 2) === 1 ? swingDelay : 0);
+
+    const target = event.t - this.quantize.lookAhead;
+    let slot = Math.floor((target - this.beatTime) / slotLength) - 1;
+    while (slotTime(slot) < target) {
+      slot++;
+    }
+    return { ...event, t: Math.max(slotTime(slot), event.t) };
+  }
+
   private clusterEvent(newEvent: AudioEvent): AudioEvent | null {
     // Find events within cluster window
     const clusterStart = newEvent.t - this.clusterWindow;
@@ -43,7 +201,9 @@ export class EventQueue {
     const remainingEvents: AudioEvent[] = [];
 
     for (const event of this.events) {
-      if (event.t >= clusterStart && event.t <= clusterEnd) {
+      // Section changes never merge with onsets
+      const sameKind = (event.kind ?? 'onset') === (newEvent.kind ?? 'onset');
+      if (sameKind && event.t >= clusterStart && event.t <= clusterEnd) {
         clusteredEvents.push(event);
       } else {
         remainingEvents.push(event);
@@ -82,34 +242,54 @@ export class EventQueue {
 
     const combinedEvent: AudioEvent = {
       t: newEvent.t, // Use the latest event's time
+      kind: newEvent.kind,
       band: newEvent.band, // Use the latest event's band
       energy: Math.min(totalEnergy, 1.0), // Cap at 1.0
       pitch: pitchWeight > 0 ? weightedPitch / pitchWeight : undefined,
-      centroid: centroidWeight > 0 ? weightedCentroid / centroidWeight : undefined
+      centroid: centroidWeight > 0 ? weightedCentroid / centroidWeight : undefined,
+      section: newEvent.section
     };
 
     this.events = remainingEvents;
     return combinedEvent;
   }
 
-  // Get memory value based on half-life decay
+  // Overall onset memory: every band together, read like a single integrator
   getMemoryValue(currentTime: number): number {
-    let memory = 0;
-    
-    for (const event of this.events) {
-      const age = currentTime - event.t;
-      if (age >= 0) {
-        const decay = Math.exp(-age / this.halfLife);
-        memory += event.energy * decay;
-      }
-    }
-    
-    return Math.min(memory, 1.0);
+    const level = MEMORY_KEYS
+      .filter(key => key !== 'section')
+      .reduce((sum, key) => sum + this.memories.get(key)!.getLevel(currentTime), 0);
+    return saturate(level);
+  }
+
+  // Decayed memory of one band (or of section changes) at `currentTime`, 0-1.
+  // Independent of popSince: consumed events are still remembered.
+  getMemory(key: MemoryKey, currentTime: number): number {
+    return saturate(this.memories.get(key)!.getLevel(currentTime));
+  }
+
+  getMemories(currentTime: number): Record<MemoryKey, number> {
+    return Object.fromEntries(
+      MEMORY_KEYS.map(key => [key, this.getMemory(key, currentTime)])
+    ) as Record<MemoryKey, number>;
+  }
+
+  setMemory(key: MemoryKey, settings: Partial<MemorySettings>): void {
+    this.memories.get(key)!.configure(settings);
+  }
+
+  getMemorySettings(key: MemoryKey): MemorySettings {
+    return this.memories.get(key)!.getSettings();
+  }
+
+  resetMemory(): void {
+    this.memories.forEach(memory => memory.reset());
   }
 
   // Get events for specific band
   getBandEvents(band: 'low'|'mid'|'high'|'full', currentTime: number): AudioEvent[] {
     return this.events.filter(event => 
+      event.kind !== 'section' &&
       event.band === band && 
       (currentTime - event.t) < this.halfLife * 3 // Keep events for 3 half-lives
     );
@@ -126,8 +306,13 @@ export class EventQueue {
     return this.events.length;
   }
 
-  // Set half-life
+  // Event retention, and the memory half-lives scaled from DEFAULT_MEMORY
+  // (replacing any set with setMemory)
   setHalfLife(halfLife: number): void {
     this.halfLife = halfLife;
+    const scale = halfLife / DEFAULT_HALF_LIFE;
+    MEMORY_KEYS.forEach(key => {
+      this.setMemory(key, { halfLife: DEFAULT_MEMORY[key].halfLife * scale });
+    });
   }
 }
@@ -0,0 +1,153 @@
+// Radix-2 FFT for real input frames. Mirrors AnalyserNode's spectrum:
+// Blackman window, 1/N magnitude normalisation and dB output.
+export class FFT {
+  readonly size: number;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private window: Float32Array;
+  private bitReversed: Uint32Array;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  // correlate() scratch, allocated on first use
+  private padded: Float32Array | null = null;
+  private spectrumReal: Float32Array | null = null;
+  private spectrumImag: Float32Array | null = null;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+
+    this.size = size;
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+    this.window = new Float32Array(size);
+    this.bitReversed = new Uint32Array(size);
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+
+    // Blackman window (same coefficients as the Web Audio spec)
+    const a0 = 0.42, a1 = 0.5, a2 = 0.08;
+    for (let i = 0; i < size; i++) {
+      const x = (2 * Math.PI * i) / size;
+      this.window[i] = a0 - a1 * Math.cos(x) + a2 * Math.cos(2 * x);
+    }
+
+    const bits = Math.log2(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.bitReversed[i] = reversed;
+    }
+
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+  }
+
+  // Writes size/2 linear magnitudes (normalised by 1/N) into `out`
+  magnitudes(input: Float32Array, out: Float32Array, applyWindow = true): void {
+    this.transform(input, applyWindow);
+
+    const n = this.size;
+    for (let i = 0; i < n / 2; i++) {
+      out[i] = Math.sqrt(this.real[i] * this.real[i] + this.imag[i] * this.imag[i]) / n;
+    }
+  }
+
+  // Writes the first size/2 complex bins (normalised by 1/N)
+  complex(input: Float32Array, outReal: Float32Array, outImag: Float32Array, applyWindow = true): void {
+    this.transform(input, applyWindow);
+
+    const n = this.size;
+    for (let i = 0; i < n / 2; i++) {
+      outReal[i] = this.real[i] / n;
+      outImag[i] = this.imag[i] / n;
+    }
+  }
+
+  // Cross-correlation out[tau] = Σ a[i]·b[i + tau], inputs zero beyond their
+  // length. Computed through the spectra in O(n log n); exact (no circular
+  // wrap) while a.length + out.length - 1 <= size.
+  correlate(a: Float32Array, b: Float32Array, out: Float32Array): void {
+    const n = this.size;
+    if (a.length + out.length - 1 > n || b.length > n) {
+      throw new Error(`Correlation does not fit in FFT size ${n}`);
+    }
+    if (!this.padded || !this.spectrumReal || !this.spectrumImag) {
+      this.padded = new Float32Array(n);
+      this.spectrumReal = new Float32Array(n);
+      this.spectrumImag = new Float32Array(n);
+    }
+    const padded = this.padded;
+    const ar = this.spectrumReal;
+    const ai = this.spectrumImag;
+
+    padded.fill(0);
+    padded.set(a);
+    this.transform(padded, false);
+    ar.set(this.real);
+    ai.set(this.imag);
+
+    padded.fill(0);
+    padded.set(b);
+    this.transform(padded, false);
+
+    // Z = conj(A)·B. The inverse transform is the forward one applied to
+    // conj(Z); the real part of the result is all we need.
+    for (let k = 0; k < n; k++) {
+      const br = this.real[k];
+      const bi = this.imag[k];
+      const zr = ar[k] * br + ai[k] * bi;
+      const zi = ar[k] * bi - ai[k] * br;
+      ar[k] = zr;
+      ai[k] = -zi;
+    }
+    for (let k = 0; k < n; k++) {
+      const j = this.bitReversed[k];
+      this.real[j] = ar[k];
+      this.imag[j] = ai[k];
+    }
+    this.butterflies();
+
+    for (let tau = 0; tau < out.length; tau++) {
+      out[tau] = this.real[tau] / n;
+    }
+  }
+
+  private transform(input: Float32Array, applyWindow: boolean): void {
+    const n = this.size;
+    for (let i = 0; i < n; i++) {
+      const j = this.bitReversed[i];
+      this.real[j] = applyWindow ? input[i] * this.window[i] : input[i];
+      this.imag[j] = 0;
+    }
+    this.butterflies();
+  }
+
+  // In-place radix-2 passes over real/imag, already in bit-reversed order
+  private butterflies(): void {
+    const n = this.size;
+    for (let len = 2; len <= n; len <<= 1) {
+      const half = len >> 1;
+      const step = n / len;
+      for (let start = 0; start < n; start += len) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * step];
+          const sin = this.sinTable[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = this.real[b] * cos + this.imag[b] * sin;
+          const ti = this.imag[b] * cos - this.real[b] * sin;
+          this.real[b] = this.real[a] - tr;
+          this.imag[b] = this.imag[a] - ti;
+          this.real[a] += tr;
+          this.imag[a] += ti;
+        }
+      }
+    }
+  }
+}
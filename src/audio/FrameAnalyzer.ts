@@ -0,0 +1,529 @@
+import { FFT } from './FFT';
+import { OnsetDetector } from './OnsetDetector';
+import type { OnsetBand, OnsetBandConfig } from './OnsetDetector';
+import { BeatTracker } from './BeatTracker';
+import { PitchDetector } from './PitchDetector';
+import { KeyEstimator } from './KeyEstimator';
+import type { KeyEstimate } from './KeyEstimator';
+import { BandAnalyzer, DEFAULT_CROSSOVER } from './BandAnalyzer';
+import { TimbreAnalyzer } from './TimbreAnalyzer';
+import { LoudnessMeter } from './LoudnessMeter';
+import type { LoudnessState } from './LoudnessMeter';
+import { StereoAnalyzer } from './StereoAnalyzer';
+import { SectionDetector } from './SectionDetector';
+import type { BandDefinition, CrossoverSettings } from './BandAnalyzer';
+import type { AnalysisFrame } from './AnalysisFrame';
+
+export const ANALYSIS_PROCESSOR_NAME = 'hikariweave-analysis';
+
+// Chromagram range (C2..C8) and smoothing
+const CHROMA_MIN_FREQ = 65;
+const CHROMA_MAX_FREQ = 4200;
+const CHROMA_TIME_CONSTANT = 0.15; // seconds
+// Frames quieter than this do not move the key estimate
+const KEY_MIN_RMS = 0.01;
+// Analysis auto-gain: follows short-term loudness, holds through quiet passages
+const AUTO_GAIN_GATE = -50; // LUFS
+const AUTO_GAIN_MAX_DB = 24;
+const AUTO_GAIN_TIME_CONSTANT = 3.0; // seconds
+
+export interface AutoGainSettings {
+  enabled: boolean;
+  targetLufs: number;
+}
+
+export const DEFAULT_AUTO_GAIN: AutoGainSettings = { enabled: false, targetLufs: -14 };
+
+// Main thread → analysis worklet control messages
+export type AnalysisProcessorMessage =
+  | { type: 'config'; fftSize?: number; hopSize?: number }
+  | { type: 'onset'; band: OnsetBand; config: Partial<OnsetBandConfig> }
+  | { type: 'crossover'; crossover: CrossoverSettings }
+  | { type: 'bands'; bands: BandDefinition[] }
+  | { type: 'meter'; beatsPerBar: number }
+  | { type: 'tempo'; bpm: number | null }
+  | { type: 'nudge'; beats: number }
+  | { type: 'resync'; time: number; downbeat: boolean }
+  | { type: 'autoGain'; settings: AutoGainSettings }
+  | { type: 'reset' };
+
+// Applies a control message to an analyzer; the worklet and main-thread
+// channels share this so both paths stay configured alike. Buffer sizes in
+// 'config' are the caller's business beyond the FFT size.
+export const applyAnalysisMessage = (analyzer: FrameAnalyzer, message: AnalysisProcessorMessage): void => {
+  switch (message.type) {
+    case 'config':
+      if (message.fftSize && message.fftSize !== analyzer.getFFTSize()) {
+        analyzer.setFFTSize(message.fftSize);
+      }
+      break;
+    case 'crossover':
+      analyzer.setCrossover(message.crossover);
+      break;
+    case 'bands':
+      analyzer.setBands(message.bands);
+      break;
+    case 'onset':
+      analyzer.setOnsetConfig(message.band, message.config);
+      break;
+    case 'meter':
+      analyzer.setBeatsPerBar(message.beatsPerBar);
+      break;
+    case 'tempo':
+      analyzer.lockTempo(message.bpm);
+      break;
+    case 'nudge':
+      analyzer.nudgeBeat(message.beats);
+      break;
+    case 'resync':
+      analyzer.resyncBeat(message.time, message.downbeat);
+      break;
+    case 'autoGain':
+      analyzer.setAutoGain(message.settings);
+      break;
+    case 'reset':
+      analyzer.reset();
+      break;
+  }
+};
+
+// Turns one block of PCM into an AnalysisFrame. Free of DOM / Web Audio
+// dependencies so it can run inside the analysis AudioWorklet as well as
+// on the main thread as a fallback.
+export class FrameAnalyzer {
+  private sampleRate: number;
+  private fftSize: number;
+  private bufferLength: number;
+  private fft: FFT;
+  private magnitudes: Float32Array;
+  private smoothedMagnitudes: Float32Array;
+  private smoothingTimeConstant = 0.8; // AnalyserNode default
+  private frequencyData: Float32Array;
+  private timeData: Float32Array;
+
+  // Frequency bands
+  private crossover: CrossoverSettings = { ...DEFAULT_CROSSOVER };
+  private bandAnalyzer = new BandAnalyzer();
+
+  // Onset detection
+  private onsetDetector = new OnsetDetector();
+
+  // Tempo and beat clock
+  private beatTracker = new BeatTracker();
+
+  // Fundamental frequency and timbre
+  private pitchDetector: PitchDetector;
+  private timbreAnalyzer: TimbreAnalyzer;
+
+  // Harmony
+  private chroma = new Float32Array(12);
+  private lastChromaTime: number | null = null;
+  private keyEstimator = new KeyEstimator();
+  private key: KeyEstimate | null = null;
+
+  // Stereo image
+  private stereoAnalyzer = new StereoAnalyzer();
+
+  // Song structure
+  private sectionDetector = new SectionDetector();
+
+  // Loudness and analysis auto-gain
+  private loudnessMeter: LoudnessMeter;
+  private lastLoudnessTime: number | null = null;
+  private autoGain: AutoGainSettings = { ...DEFAULT_AUTO_GAIN };
+  private autoGainDb = 0;
+
+  constructor(sampleRate: number, fftSize = 2048) {
+    this.sampleRate = sampleRate;
+    this.fftSize = fftSize;
+    this.bufferLength = fftSize / 2;
+    this.fft = new FFT(fftSize);
+    this.magnitudes = new Float32Array(this.bufferLength);
+    this.smoothedMagnitudes = new Float32Array(this.bufferLength);
+    this.frequencyData = new Float32Array(this.bufferLength);
+    this.timeData = new Float32Array(fftSize);
+    this.pitchDetector = new PitchDetector(sampleRate);
+    this.timbreAnalyzer = new TimbreAnalyzer(sampleRate);
+    this.loudnessMeter = new LoudnessMeter(sampleRate);
+  }
+
+  getFFTSize(): number {
+    return this.fftSize;
+  }
+
+  setFFTSize(size: number): void {
+    this.fftSize = size;
+    this.bufferLength = size / 2;
+    this.fft = new FFT(size);
+    this.magnitudes = new Float32Array(this.bufferLength);
+    this.smoothedMagnitudes = new Float32Array(this.bufferLength);
+    this.frequencyData = new Float32Array(this.bufferLength);
+    this.timeData = new Float32Array(size);
+    this.onsetDetector.reset();
+  }
+
+  // Forget spectral history after a discontinuity (seek, source switch)
+  reset(): void {
+    this.smoothedMagnitudes.fill(0);
+    this.onsetDetector.reset();
+    this.beatTracker.reset();
+    this.bandAnalyzer.reset();
+    this.timbreAnalyzer.reset();
+    this.chroma.fill(0);
+    this.lastChromaTime = null;
+    this.keyEstimator.reset();
+    this.key = null;
+    this.stereoAnalyzer.reset();
+    this.sectionDetector.reset();
+    this.loudnessMeter.reset();
+    this.lastLoudnessTime = null;
+  }
+
+  // Moves the Low/Mid/High split (and the matching onset bands); other
+  // bands are left alone
+  setCrossover(crossover: CrossoverSettings): void {
+    if (!(crossover.lowMid > 0 && crossover.midHigh > crossover.lowMid)) {
+      throw new Error(`Invalid crossover: ${crossover.lowMid}/${crossover.midHigh} Hz`);
+    }
+    this.crossover = { ...crossover };
+
+    const split: Record<string, [number, number]> = {
+      low: [0, crossover.lowMid],
+      mid: [crossover.lowMid, crossover.midHigh]
+    };
+    this.bandAnalyzer.setBands(this.bandAnalyzer.getBands().map(band => {
+      if (split[band.id]) {
+        return { ...band, lowFreq: split[band.id][0], highFreq: split[band.id][1] };
+      }
+      return band.id === 'high' ? { ...band, lowFreq: crossover.midHigh } : band;
+    }));
+  }
+
+  getCrossover(): CrossoverSettings {
+    return { ...this.crossover };
+  }
+
+  // Replaces the named band list; `low`/`mid`/`high` and the instrument bands
+  // fill the matching AnalysisFrame fields, everything else lands in `bands`
+  setBands(bands: BandDefinition[]): void {
+    this.bandAnalyzer.setBands(bands);
+  }
+
+  getBands(): BandDefinition[] {
+    return this.bandAnalyzer.getBands();
+  }
+
+  setOnsetConfig(band: OnsetBand, config: Partial<OnsetBandConfig>): void {
+    this.onsetDetector.setBandConfig(band, config);
+  }
+
+  setBeatsPerBar(beatsPerBar: number): void {
+    this.beatTracker.setBeatsPerBar(beatsPerBar);
+  }
+
+  // Beat clock overrides, see BeatTracker
+  lockTempo(bpm: number | null): void {
+    this.beatTracker.lockTempo(bpm);
+  }
+
+  nudgeBeat(beats: number): void {
+    this.beatTracker.nudge(beats);
+  }
+
+  resyncBeat(time: number, downbeat: boolean): void {
+    this.beatTracker.resync(time, downbeat);
+  }
+
+  // Scales everything derived from the signal (levels, spectrum, bands) towards
+  // the target loudness; loudness itself is always measured before the gain
+  setAutoGain(settings: AutoGainSettings): void {
+    this.autoGain = { ...settings };
+    if (!settings.enabled) {
+      this.autoGainDb = 0;
+    }
+  }
+
+  getAutoGain(): AutoGainSettings {
+    return { ...this.autoGain };
+  }
+
+  getFrequencyData(): Float32Array {
+    return this.frequencyData;
+  }
+
+  // The spectrum is computed from `timeData` with AnalyserNode-equivalent
+  // settings; only the dB view returned by getFrequencyData is smoothed.
+  // `channels` are the left/right blocks behind the mono `timeData`; without
+  // them the signal is treated as mono.
+  analyze(
+    timeData: Float32Array,
+    time: number,
+    channels?: [Float32Array, Float32Array]
+  ): AnalysisFrame {
+    this.timeData.set(timeData.subarray(0, this.fftSize));
+
+    const loudness = this.measureLoudness(time, channels);
+    const gain = Math.pow(10, this.autoGainDb / 20);
+    if (gain !== 1) {
+      for (let i = 0; i < this.timeData.length; i++) {
+        this.timeData[i] *= gain;
+      }
+    }
+
+    this.computeSpectrum();
+
+    // Calculate RMS and peak
+    let rms = 0;
+    let peak = 0;
+    for (let i = 0; i < this.timeData.length; i++) {
+      rms += this.timeData[i] * this.timeData[i];
+      peak = Math.max(peak, Math.abs(this.timeData[i]));
+    }
+    rms = Math.sqrt(rms / this.timeData.length);
+
+    // Calculate frequency bands (auto-ranged to 0..1)
+    const levels = this.bandAnalyzer.process(this.magnitudes, this.sampleRate / this.fftSize, time);
+    const bands: Record<string, number> = {};
+    const bandPeaks: Record<string, number> = {};
+    for (const id in levels) {
+      bands[id] = levels[id].value;
+      bandPeaks[id] = levels[id].peak;
+    }
+    const band = (id: string) => bands[id] ?? 0;
+    const low = band('low');
+    const mid = band('mid');
+    const high = band('high');
+
+    // Calculate specific musical elements
+    const bassDrum = band('bassDrum');
+    const snare = band('snare');
+    const hihat = band('hihat');
+    const kick = band('kick');
+    const vocal = band('vocal');
+    const melody = band('melody');
+
+    // Calculate spectral centroid
+    const timbre = this.timbreAnalyzer.process(this.magnitudes, this.timeData);
+    const centroid = timbre.centroid;
+
+    // Detect onsets for each band
+    const onsets = this.onsetDetector.process(this.magnitudes, this.getOnsetBins(), time);
+
+    // Track tempo and beat position
+    const beat = this.beatTracker.process(
+      this.onsetDetector.getFlux('full'),
+      this.onsetDetector.getFlux('low'),
+      time
+    );
+
+    // Stereo image, overall and per Low/Mid/High band (auto-gain does not change it)
+    const [left, right] = channels ?? [timeData, timeData];
+    const stereo = this.stereoAnalyzer.process(
+      left.subarray(0, this.fftSize),
+      right.subarray(0, this.fftSize),
+      {
+        low: [0, this.crossover.lowMid],
+        mid: [this.crossover.lowMid, this.crossover.midHigh],
+        high: [this.crossover.midHigh, this.sampleRate / 2]
+      },
+      this.sampleRate / this.fftSize,
+      time
+    );
+
+    // Detect pitch and chroma
+    const pitch = this.pitchDetector.detect(this.timeData);
+    const chroma = this.calculateChroma(time);
+    if (rms >= KEY_MIN_RMS) {
+      this.key = this.keyEstimator.process(chroma, time);
+    }
+
+    // Calculate color parameters based on musical elements
+    const hue = this.calculateHue(bassDrum, snare, hihat, melody);
+    const saturation = this.calculateSaturation(rms, centroid);
+    const brightness = this.calculateBrightness(rms, bassDrum, hihat);
+
+    const frame: AnalysisFrame = {
+      time,
+      rms,
+      peak,
+      low,
+      mid,
+      high,
+      bands,
+      bandPeaks,
+      centroid,
+      spread: timbre.spread,
+      flatness: timbre.flatness,
+      rolloff: timbre.rolloff,
+      flux: timbre.flux,
+      zcr: timbre.zcr,
+      mfcc: timbre.mfcc,
+      pitch: pitch?.midi,
+      pitchHz: pitch?.frequency,
+      pitchCents: pitch?.cents,
+      pitchClarity: pitch?.clarity ?? 0,
+      chroma,
+      key: this.key?.tonic,
+      keyMode: this.key?.mode,
+      keyConfidence: this.key?.confidence ?? 0,
+      onsets,
+      bpm: beat.bpm,
+      beatPhase: beat.beatPhase,
+      beat: beat.beat,
+      bar: beat.bar,
+      tempoConfidence: beat.tempoConfidence,
+      loudnessMomentary: loudness.momentary,
+      loudnessShortTerm: loudness.shortTerm,
+      loudnessIntegrated: loudness.integrated,
+      loudnessRange: loudness.range,
+      autoGainDb: this.autoGainDb,
+      balance: stereo.overall.balance,
+      width: stereo.overall.width,
+      correlation: stereo.overall.correlation,
+      stereoBands: stereo.bands,
+      
+      // Musical elements
+      bassDrum,
+      snare,
+      hihat,
+      kick,
+      vocal,
+      melody,
+      
+      // Color control
+      hue,
+      saturation,
+      brightness
+    };
+
+    // Section changes need the finished frame (chroma, MFCC, loudness)
+    const sectionChange = this.sectionDetector.process(frame);
+    frame.section = this.sectionDetector.getLabel();
+    frame.sectionNovelty = this.sectionDetector.getNovelty();
+    if (sectionChange) {
+      frame.sectionChange = sectionChange;
+    }
+
+    return frame;
+  }
+
+  // Feeds the samples added since the previous frame (the whole window right
+  // after a reset) and steps the auto-gain towards the target. Stereo input is
+  // measured per channel, as BS.1770 requires, not on the mono downmix.
+  private measureLoudness(time: number, channels?: [Float32Array, Float32Array]): LoudnessState {
+    const elapsed = this.lastLoudnessTime === null
+      ? this.timeData.length
+      : Math.round((time - this.lastLoudnessTime) * this.sampleRate);
+    const dt = this.lastLoudnessTime === null ? 0 : Math.max(0, time - this.lastLoudnessTime);
+    this.lastLoudnessTime = time;
+
+    const count = Math.max(0, Math.min(this.timeData.length, elapsed));
+    const size = this.timeData.length;
+    const loudness = this.loudnessMeter.process(
+      (channels ?? [this.timeData]).map(data => data.subarray(size - count, size))
+    );
+
+    if (this.autoGain.enabled && loudness.shortTerm > AUTO_GAIN_GATE) {
+      const target = Math.max(
+        -AUTO_GAIN_MAX_DB,
+        Math.min(AUTO_GAIN_MAX_DB, this.autoGain.targetLufs - loudness.shortTerm)
+      );
+      this.autoGainDb += (target - this.autoGainDb) * (1 - Math.exp(-dt / AUTO_GAIN_TIME_CONSTANT));
+    }
+
+    return loudness;
+  }
+
+  private computeSpectrum(): void {
+    this.fft.magnitudes(this.timeData, this.magnitudes);
+
+    const tau = this.smoothingTimeConstant;
+    for (let i = 0; i < this.bufferLength; i++) {
+      this.smoothedMagnitudes[i] = tau * this.smoothedMagnitudes[i] + (1 - tau) * this.magnitudes[i];
+      this.frequencyData[i] = 20 * Math.log10(this.smoothedMagnitudes[i]);
+    }
+  }
+
+  // Band bin ranges [start, end) for onset detection
+  private getOnsetBins(): Record<OnsetBand, [number, number]> {
+    const toBin = (freq: number) => Math.floor((freq / (this.sampleRate / 2)) * this.bufferLength);
+    const lowBin = toBin(this.crossover.lowMid);
+    const midBin = toBin(this.crossover.midHigh);
+
+    return {
+      low: [0, lowBin],
+      mid: [lowBin, midBin],
+      high: [midBin, this.bufferLength],
+      full: [0, this.bufferLength]
+    };
+  }
+
+  private calculateChroma(time: number): number[] {
+    const raw = new Array(12).fill(0);
+    const binWidth = this.sampleRate / this.fftSize;
+
+    for (let i = 1; i < this.bufferLength; i++) {
+      const freq = i * binWidth;
+      if (freq < CHROMA_MIN_FREQ || freq > CHROMA_MAX_FREQ) continue;
+
+      // MIDI note 60 is C4, so note % 12 counts from C
+      const note = Math.round(69 + 12 * Math.log2(freq / 440));
+      raw[((note % 12) + 12) % 12] += this.magnitudes[i] * this.magnitudes[i];
+    }
+
+    const max = Math.max(...raw);
+    // First frame after a reset starts the average from scratch
+    const decay = this.lastChromaTime === null
+      ? 0
+      : Math.exp(-Math.max(0, time - this.lastChromaTime) / CHROMA_TIME_CONSTANT);
+    this.lastChromaTime = time;
+
+    for (let i = 0; i < 12; i++) {
+      const value = max > 0 ? raw[i] / max : 0;
+      this.chroma[i] = this.chroma[i] * decay + value * (1 - decay);
+    }
+
+    const smoothedMax = Math.max(...this.chroma);
+    return Array.from(this.chroma, value => (smoothedMax > 0 ? value / smoothedMax : 0));
+  }
+
+  // Color control methods
+  private calculateHue(bassDrum: number, snare: number, hihat: number, melody: number): number {
+    // Bass drum = red (0.0), snare = green (0.33), hi-hat = blue (0.67), melody = purple (0.8)
+    let hue = 0.0;
+    
+    if (bassDrum > 0.1) {
+      hue = 0.0;
+    } else if (snare > 0.1) {
+      hue = 0.33;
+    } else if (hihat > 0.1) {
+      hue = 0.67;
+    } else if (melody > 0.1) {
+      hue = 0.8;
+    } else {
+      // No single element dominates: weighted average of their hues
+      const total = bassDrum + snare + hihat + melody;
+      if (total > 0) {
+        hue = (bassDrum * 0.0 + snare * 0.33 + hihat * 0.67 + melody * 0.8) / total;
+      }
+    }
+    
+    return hue;
+  }
+
+  private calculateSaturation(rms: number, centroid: number): number {
+    // Louder and brighter (higher centroid) sounds are more saturated
+    const rmsSaturation = Math.min(1.0, rms * 3.0);
+    const centroidSaturation = Math.min(1.0, centroid * 1.5);
+    return Math.max(0.3, (rmsSaturation + centroidSaturation) / 2);
+  }
+
+  private calculateBrightness(rms: number, bassDrum: number, hihat: number): number {
+    // Bass drum darkens, hi-hat brightens
+    const baseBrightness = Math.min(1.0, rms * 2.0);
+    const bassDarkness = bassDrum * 0.3;
+    const hihatBrightness = hihat * 0.4;
+    
+    return Math.max(0.1, Math.min(1.0, baseBrightness - bassDarkness + hihatBrightness));
+  }
+}
@@ -0,0 +1,248 @@
+import { EventQueue, eventsFromFrame } from './EventQueue';
+import type { MemoryKey } from './EventQueue';
+import { EventBus } from './EventBus';
+import type { ModMatrix } from './ModMatrix';
+import type { AnalysisFrame, AudioEvent } from './AnalysisFrame';
+
+// Everything a renderer needs for one animation frame
+export interface FrameContext {
+  deltaTime: number; // real time since the previous frame (seconds)
+  time: number; // analysis clock (seconds)
+  frame: AnalysisFrame; // latest frame (a silent frame without audio)
+  frames: AnalysisFrame[]; // frames since the previous step, oldest first
+  events: AudioEvent[]; // events the EventQueue released this frame
+  memory: Record<MemoryKey, number>;
+  memoryValue: number;
+  hasAudio: boolean;
+  modMatrix: ModMatrix;
+}
+
+export interface FrameRenderer {
+  update(context: FrameContext): void;
+  render(): void;
+  dispose(): void;
+}
+
+// The analysis side of AudioEngine the pipeline reads from. Named sources
+// (getSourceIds, without the master) feed their own ModMatrix sources.
+export interface FrameSource {
+  getAnalysisFramesSince(time: number): AnalysisFrame[];
+  getAnalysisFrame(sourceId?: string): AnalysisFrame;
+  getSourceIds?(): string[];
+}
+
+export interface FramePipelineOptions {
+  modMatrix: ModMatrix;
+  eventQueue?: EventQueue;
+  eventBus?: EventBus;
+  clock?: () => number; // seconds; defaults to performance.now()
+  maxDeltaTime?: number; // caps dt so returning to a hidden tab does not jump
+}
+
+const defaultClock = () => performance.now() / 1000;
+const FIRST_DELTA_TIME = 1 / 60;
+
+// Frame with everything at rest, for drawing before any audio arrives
+export const silentFrame = (time: number): AnalysisFrame => ({
+  time,
+  rms: 0,
+  peak: 0,
+  low: 0,
+  mid: 0,
+  high: 0,
+  centroid: 0,
+  spread: 0,
+  flatness: 0,
+  rolloff: 0,
+  flux: 0,
+  zcr: 0,
+  loudnessMomentary: -70,
+  loudnessShortTerm: -70,
+  loudnessIntegrated: -70,
+  loudnessRange: 0,
+  autoGainDb: 0,
+  balance: 0,
+  width: 0,
+  correlation: 0,
+  onsets: [],
+  beatPhase: 0,
+  beat: 0,
+  bar: 0,
+  tempoConfidence: 0,
+  bassDrum: 0,
+  snare: 0,
+  hihat: 0,
+  kick: 0,
+  vocal: 0,
+  melody: 0,
+  hue: 0,
+  saturation: 0,
+  brightness: 0
+});
+
+// Per animation frame: pulls every analysis frame since the last one, feeds
+// the EventQueue and EventBus, integrates memory, runs the ModMatrix and
+// hands the result to the active renderer as one FrameContext.
+export class FramePipeline {
+  private modMatrix: ModMatrix;
+  private eventQueue: EventQueue;
+  private eventBus: EventBus;
+  private clock: () => number;
+  private maxDeltaTime: number;
+  private renderers = new Map<string, FrameRenderer>();
+  private activeRendererId: string | null = null;
+  private lastClockTime: number | null = null;
+  private lastFrameTime = 0; // analysis time of the last frame handled
+  private routedSourceIds = new Set<string>(); // named sources currently fed to the ModMatrix
+
+  constructor(options: FramePipelineOptions) {
+    this.modMatrix = options.modMatrix;
+    this.eventQueue = options.eventQueue ?? new EventQueue();
+    this.eventBus = options.eventBus ?? new EventBus();
+    this.clock = options.clock ?? defaultClock;
+    this.maxDeltaTime = options.maxDeltaTime ?? 0.1;
+  }
+
+  getEventQueue(): EventQueue {
+    return this.eventQueue;
+  }
+
+  getEventBus(): EventBus {
+    return this.eventBus;
+  }
+
+  addRenderer(id: string, renderer: FrameRenderer): void {
+    this.renderers.get(id)?.dispose();
+    this.renderers.set(id, renderer);
+    if (this.activeRendererId === null) {
+      this.activeRendererId = id;
+    }
+  }
+
+  hasRenderer(id: string): boolean {
+    return this.renderers.has(id);
+  }
+
+  setActiveRenderer(id: string): void {
+    if (!this.renderers.has(id)) {
+      throw new Error(`Unknown renderer: ${id}`);
+    }
+    this.activeRendererId = id;
+  }
+
+  getActiveRendererId(): string | null {
+    return this.activeRendererId;
+  }
+
+  // Advance one animation frame. `source` is null until the engine exists;
+  // a source that throws counts as no audio for this frame.
+  step(source: FrameSource | null): FrameContext {
+    const now = this.clock();
+    const deltaTime = this.lastClockTime === null
+      ? FIRST_DELTA_TIME
+      : Math.min(this.maxDeltaTime, Math.max(0, now - this.lastClockTime));
+    this.lastClockTime = now;
+
+    const previousTime = this.lastFrameTime;
+    const pulled = source ? this.pull(source, previousTime) : null;
+    let frames: AnalysisFrame[] = [];
+    let frame: AnalysisFrame;
+    let events: AudioEvent[] = [];
+    if (pulled) {
+      frames = pulled.frames;
+      frame = pulled.frame;
+
+      for (const analysisFrame of frames) {
+        this.eventQueue.setBeatClock(analysisFrame.time, analysisFrame.beatPhase, analysisFrame.bpm);
+        eventsFromFrame(analysisFrame).forEach(event => this.eventQueue.push(event));
+        this.eventBus.publishFrame(analysisFrame);
+      }
+
+      events = this.eventQueue.popSince(previousTime, frame.time);
+      this.lastFrameTime = frame.time;
+    } else {
+      frame = silentFrame(now);
+    }
+
+    // Memory keeps ringing after the events themselves are consumed
+    const memory = this.eventQueue.getMemories(frame.time);
+    const memoryValue = this.eventQueue.getMemoryValue(frame.time);
+    this.modMatrix.updateFromFrame(frame);
+    this.routeNamedSources(pulled ? source : null);
+    this.modMatrix.updateMemorySources(memory, memoryValue);
+    this.modMatrix.updateLFOs(now);
+    this.modMatrix.processConnections(deltaTime);
+
+    return {
+      deltaTime,
+      time: frame.time,
+      frame,
+      frames,
+      events,
+      memory,
+      memoryValue,
+      hasAudio: pulled !== null,
+      modMatrix: this.modMatrix
+    };
+  }
+
+  // Every frame since the last render, so onsets landing between two
+  // animation frames still reach the EventQueue
+  private pull(source: FrameSource, since: number): { frames: AnalysisFrame[]; frame: AnalysisFrame } | null {
+    try {
+      const frames = source.getAnalysisFramesSince(since);
+      return { frames, frame: frames[frames.length - 1] ?? source.getAnalysisFrame() };
+    } catch (error) {
+      console.warn('Analysis frames unavailable:', error);
+      return null;
+    }
+  }
+
+  // Latest frame of every named source to its `${id}.*` ModMatrix sources;
+  // sources the engine no longer has lose theirs, with any routing from them
+  private routeNamedSources(source: FrameSource | null): void {
+    const sourceIds = new Set(source?.getSourceIds?.() ?? []);
+    this.routedSourceIds.forEach(id => {
+      if (!sourceIds.has(id)) {
+        this.modMatrix.removeAudioSources(id);
+      }
+    });
+    this.routedSourceIds = sourceIds;
+    if (!source) return;
+
+    sourceIds.forEach(id => {
+      try {
+        this.modMatrix.updateFromFrame(source.getAnalysisFrame(id), id);
+      } catch (error) {
+        // Removed since getSourceIds; pruned on the next frame
+        console.warn(`Analysis source "${id}" unavailable:`, error);
+      }
+    });
+  }
+
+  // Step and draw the active renderer
+  tick(source: FrameSource | null): FrameContext {
+    const context = this.step(source);
+    const renderer = this.activeRendererId !== null ? this.renderers.get(this.activeRendererId) : undefined;
+    if (renderer) {
+      renderer.update(context);
+      try {
+        renderer.render();
+      } catch (error) {
+        console.error(`Renderer "${this.activeRendererId}" render error:`, error);
+      }
+    }
+    return context;
+  }
+
+  // Forget event detection state, e.g. when the input source changes
+  reset(): void {
+    this.eventBus.reset();
+  }
+
+  dispose(): void {
+    this.renderers.forEach(renderer => renderer.dispose());
+    this.renderers.clear();
+    this.activeRendererId = null;
+  }
+}
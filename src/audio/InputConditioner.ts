@@ -0,0 +1,152 @@
+export type ChannelMode = 'mono' | 'left' | 'right' | 'stereo';
+
+export interface InputConditioningSettings {
+  trimDb: number; // -24..+24 dB
+  channelMode: ChannelMode;
+  limiterEnabled: boolean;
+  limiterCeilingDb: number; // dBFS
+}
+
+export interface InputLevel {
+  peak: number; // 0..1+ (linear, post trim / channel select)
+  peakDb: number;
+  clipping: boolean; // latched for CLIP_HOLD_SECONDS after a clip
+}
+
+export const DEFAULT_INPUT_CONDITIONING: InputConditioningSettings = {
+  trimDb: 0,
+  channelMode: 'stereo',
+  limiterEnabled: true,
+  limiterCeilingDb: -1
+};
+
+export const TRIM_RANGE_DB = { min: -24, max: 24 };
+
+const CLIP_THRESHOLD = 0.99;
+const CLIP_HOLD_SECONDS = 1.0;
+
+// Channel routing gains [L→out0, R→out0, L→out1, R→out1]
+const CHANNEL_ROUTING: Record<ChannelMode, [number, number, number, number]> = {
+  stereo: [1, 0, 0, 1],
+  left: [1, 0, 1, 0],
+  right: [0, 1, 0, 1],
+  mono: [0.5, 0.5, 0.5, 0.5]
+};
+
+// Trim → channel select → look-ahead limiter, placed before the analyser.
+// Sources connect to `input`; `output` feeds analysis only (not the speakers).
+export class InputConditioner {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private context: AudioContext;
+  private merger: ChannelMergerNode;
+  private routingGains: GainNode[];
+  private limiter: DynamicsCompressorNode;
+  private meter: AnalyserNode;
+  private meterData: Float32Array;
+  private settings: InputConditioningSettings = { ...DEFAULT_INPUT_CONDITIONING };
+  private lastClipTime = -Infinity;
+  private isRouted = false;
+
+  constructor(context: AudioContext, settings: Partial<InputConditioningSettings> = {}) {
+    this.context = context;
+
+    // Trim stage; explicit stereo up-mix so mono mics reach both channels
+    this.input = context.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+
+    const splitter = context.createChannelSplitter(2);
+    this.merger = context.createChannelMerger(2);
+    this.input.connect(splitter);
+
+    this.routingGains = [
+      [0, 0], [1, 0], [0, 1], [1, 1]
+    ].map(([fromChannel, toChannel]) => {
+      const gain = context.createGain();
+      splitter.connect(gain, fromChannel);
+      gain.connect(this.merger, 0, toChannel);
+      return gain;
+    });
+
+    // DynamicsCompressorNode delays its signal path internally (~6ms),
+    // which gives us a simple look-ahead brickwall at a high ratio.
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+
+    // Peak meter taps the signal before limiting so clipping is still visible
+    this.meter = context.createAnalyser();
+    this.meter.fftSize = 1024;
+    this.meterData = new Float32Array(this.meter.fftSize);
+    this.merger.connect(this.meter);
+
+    this.output = context.createGain();
+    this.limiter.connect(this.output);
+
+    this.update(settings);
+  }
+
+  update(updates: Partial<InputConditioningSettings>): void {
+    const previous = this.settings;
+    this.settings = { ...this.settings, ...updates };
+
+    const trimDb = Math.max(TRIM_RANGE_DB.min, Math.min(TRIM_RANGE_DB.max, this.settings.trimDb));
+    this.settings.trimDb = trimDb;
+    this.input.gain.setTargetAtTime(Math.pow(10, trimDb / 20), this.context.currentTime, 0.01);
+
+    CHANNEL_ROUTING[this.settings.channelMode].forEach((value, index) => {
+      this.routingGains[index].gain.value = value;
+    });
+
+    this.limiter.threshold.value = this.settings.limiterCeilingDb;
+
+    if (previous.limiterEnabled !== this.settings.limiterEnabled || !this.isRouted) {
+      this.routeLimiter();
+    }
+  }
+
+  getSettings(): InputConditioningSettings {
+    return { ...this.settings };
+  }
+
+  getLevel(): InputLevel {
+    this.meter.getFloatTimeDomainData(this.meterData);
+
+    let peak = 0;
+    for (let i = 0; i < this.meterData.length; i++) {
+      const sample = Math.abs(this.meterData[i]);
+      if (sample > peak) peak = sample;
+    }
+
+    const now = this.context.currentTime;
+    if (peak >= CLIP_THRESHOLD) {
+      this.lastClipTime = now;
+    }
+
+    return {
+      peak,
+      peakDb: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+      clipping: now - this.lastClipTime < CLIP_HOLD_SECONDS
+    };
+  }
+
+  dispose(): void {
+    this.input.disconnect();
+    this.merger.disconnect();
+    this.routingGains.forEach(gain => gain.disconnect());
+    this.limiter.disconnect();
+    this.output.disconnect();
+  }
+
+  private routeLimiter(): void {
+    if (this.isRouted) {
+      this.merger.disconnect(this.settings.limiterEnabled ? this.output : this.limiter);
+    }
+    this.merger.connect(this.settings.limiterEnabled ? this.limiter : this.output);
+    this.isRouted = true;
+  }
+}
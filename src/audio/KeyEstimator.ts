@@ -0,0 +1,76 @@
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+  tonic: number; // pitch class (0 = C .. 11 = B)
+  mode: KeyMode;
+  confidence: number; // 0..1 (correlation with the key profile)
+}
+
+export const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Harmony changes slowly compared to the frame rate
+const KEY_TIME_CONSTANT = 8.0; // seconds
+
+export const formatKey = (key: KeyEstimate): string =>
+  `${PITCH_CLASS_NAMES[key.tonic]} ${key.mode}`;
+
+const correlate = (a: number[], b: number[], rotation: number): number => {
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < 12; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= 12;
+  meanB /= 12;
+
+  let numerator = 0, varianceA = 0, varianceB = 0;
+  for (let i = 0; i < 12; i++) {
+    const x = a[(i + rotation) % 12] - meanA;
+    const y = b[i] - meanB;
+    numerator += x * y;
+    varianceA += x * x;
+    varianceB += y * y;
+  }
+  const denominator = Math.sqrt(varianceA * varianceB);
+  return denominator > 0 ? numerator / denominator : 0;
+};
+
+// Key and mode by correlating a long-term chroma average against the 24
+// rotated major/minor profiles.
+export class KeyEstimator {
+  private profile = new Array(12).fill(0);
+  private lastTime: number | null = null;
+
+  reset(): void {
+    this.profile.fill(0);
+    this.lastTime = null;
+  }
+
+  // `chroma` is a normalized 12-bin vector (C first); silent frames should be skipped
+  process(chroma: number[], time: number): KeyEstimate | null {
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    const decay = Math.exp(-dt / KEY_TIME_CONSTANT);
+    for (let i = 0; i < 12; i++) {
+      this.profile[i] = this.profile[i] * decay + chroma[i] * (1 - decay);
+    }
+
+    let best: KeyEstimate | null = null;
+    for (let tonic = 0; tonic < 12; tonic++) {
+      for (const mode of ['major', 'minor'] as const) {
+        const score = correlate(this.profile, mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE, tonic);
+        if (!best || score > best.confidence) {
+          best = { tonic, mode, confidence: score };
+        }
+      }
+    }
+
+    if (!best || best.confidence <= 0) return null;
+    return best;
+  }
+}
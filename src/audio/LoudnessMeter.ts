@@ -0,0 +1,217 @@
+export interface LoudnessState {
+  momentary: number; // LUFS (400ms)
+  shortTerm: number; // LUFS (3s)
+  integrated: number; // LUFS (gated, since the last reset)
+  range: number; // LRA (LU)
+}
+
+// Reported for silence and anything below the absolute gate
+export const LOUDNESS_FLOOR = -70;
+
+const SUB_BLOCK_SECONDS = 0.1;
+const MOMENTARY_SUB_BLOCKS = 4;
+const SHORT_TERM_SUB_BLOCKS = 30;
+const RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+// Histogram of block loudness for gating without keeping every block
+const HISTOGRAM_MIN = LOUDNESS_FLOOR;
+const HISTOGRAM_MAX = 10;
+const HISTOGRAM_STEP = 0.1;
+const HISTOGRAM_BINS = Math.round((HISTOGRAM_MAX - HISTOGRAM_MIN) / HISTOGRAM_STEP);
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+  z1: number; z2: number;
+}
+
+const energyToLoudness = (energy: number): number =>
+  energy > 0 ? Math.max(LOUDNESS_FLOOR, -0.691 + 10 * Math.log10(energy)) : LOUDNESS_FLOOR;
+
+const loudnessToEnergy = (loudness: number): number => Math.pow(10, (loudness + 0.691) / 10);
+
+class LoudnessHistogram {
+  private counts = new Uint32Array(HISTOGRAM_BINS);
+
+  clear(): void {
+    this.counts.fill(0);
+  }
+
+  add(loudness: number): void {
+    if (loudness <= HISTOGRAM_MIN) return; // absolute gate
+    const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor((loudness - HISTOGRAM_MIN) / HISTOGRAM_STEP));
+    this.counts[bin]++;
+  }
+
+  private binLoudness(bin: number): number {
+    return HISTOGRAM_MIN + (bin + 0.5) * HISTOGRAM_STEP;
+  }
+
+  // Energy-mean loudness of all blocks above `gate`
+  gatedMean(gate: number): number {
+    let energy = 0;
+    let count = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      if (this.counts[bin] === 0 || this.binLoudness(bin) <= gate) continue;
+      energy += this.counts[bin] * loudnessToEnergy(this.binLoudness(bin));
+      count += this.counts[bin];
+    }
+    return count > 0 ? energyToLoudness(energy / count) : LOUDNESS_FLOOR;
+  }
+
+  // Loudness below which `fraction` of the blocks above `gate` fall
+  percentile(gate: number, fraction: number): number {
+    let total = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      if (this.binLoudness(bin) > gate) total += this.counts[bin];
+    }
+    if (total === 0) return LOUDNESS_FLOOR;
+
+    let seen = 0;
+    for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+      if (this.binLoudness(bin) <= gate) continue;
+      seen += this.counts[bin];
+      if (seen >= fraction * total) return this.binLoudness(bin);
+    }
+    return HISTOGRAM_MAX;
+  }
+}
+
+// EBU R128 / ITU-R BS.1770 loudness: K-weighting per channel, channel
+// energies summed (G = 1.0 for left/right; no surround channels here), 100ms
+// sub-blocks, momentary/short-term windows, gated integrated loudness and
+// loudness range (LRA).
+export class LoudnessMeter {
+  private sampleRate: number;
+  private filters: { pre: Biquad; rlb: Biquad }[] = []; // K-weighting state per channel
+  private subBlockLength: number;
+  private subBlockEnergy = 0;
+  private subBlockCount = 0;
+  private subBlocks: number[] = []; // mean squares of the recent sub-blocks, oldest first
+  private integratedHistogram = new LoudnessHistogram();
+  private rangeHistogram = new LoudnessHistogram();
+  private state: LoudnessState = {
+    momentary: LOUDNESS_FLOOR,
+    shortTerm: LOUDNESS_FLOOR,
+    integrated: LOUDNESS_FLOOR,
+    range: 0
+  };
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+    this.subBlockLength = Math.round(SUB_BLOCK_SECONDS * sampleRate);
+  }
+
+  reset(): void {
+    this.filters = [];
+    this.subBlockEnergy = 0;
+    this.subBlockCount = 0;
+    this.subBlocks = [];
+    this.integratedHistogram.clear();
+    this.rangeHistogram.clear();
+    this.state = { momentary: LOUDNESS_FLOOR, shortTerm: LOUDNESS_FLOOR, integrated: LOUDNESS_FLOOR, range: 0 };
+  }
+
+  // Feed samples that have not been seen before, in order: one block per
+  // channel, all the same length ([mono] or [left, right])
+  process(channels: Float32Array[]): LoudnessState {
+    if (this.filters.length !== channels.length) {
+      this.filters = channels.map(() => ({ pre: this.createPreFilter(), rlb: this.createRlbFilter() }));
+    }
+
+    const length = channels[0]?.length ?? 0;
+    for (let i = 0; i < length; i++) {
+      for (let c = 0; c < channels.length; c++) {
+        const { pre, rlb } = this.filters[c];
+        const weighted = this.filter(rlb, this.filter(pre, channels[c][i]));
+        this.subBlockEnergy += weighted * weighted;
+      }
+      this.subBlockCount++;
+
+      if (this.subBlockCount >= this.subBlockLength) {
+        this.completeSubBlock(this.subBlockEnergy / this.subBlockCount);
+        this.subBlockEnergy = 0;
+        this.subBlockCount = 0;
+      }
+    }
+    return { ...this.state };
+  }
+
+  private completeSubBlock(meanSquare: number): void {
+    this.subBlocks.push(meanSquare);
+    if (this.subBlocks.length > SHORT_TERM_SUB_BLOCKS) {
+      this.subBlocks.shift();
+    }
+
+    const mean = (count: number) => {
+      const blocks = this.subBlocks.slice(-count);
+      return blocks.reduce((sum, value) => sum + value, 0) / blocks.length;
+    };
+
+    this.state.momentary = energyToLoudness(mean(MOMENTARY_SUB_BLOCKS));
+    this.state.shortTerm = energyToLoudness(mean(SHORT_TERM_SUB_BLOCKS));
+
+    // Gating blocks overlap by 75%: one 400ms block per 100ms sub-block
+    if (this.subBlocks.length >= MOMENTARY_SUB_BLOCKS) {
+      this.integratedHistogram.add(this.state.momentary);
+      const ungated = this.integratedHistogram.gatedMean(LOUDNESS_FLOOR);
+      this.state.integrated = this.integratedHistogram.gatedMean(ungated + RELATIVE_GATE_LU);
+    }
+
+    if (this.subBlocks.length >= SHORT_TERM_SUB_BLOCKS) {
+      this.rangeHistogram.add(this.state.shortTerm);
+      const gate = this.rangeHistogram.gatedMean(LOUDNESS_FLOOR) + RANGE_RELATIVE_GATE_LU;
+      this.state.range = Math.max(
+        0,
+        this.rangeHistogram.percentile(gate, 0.95) - this.rangeHistogram.percentile(gate, 0.1)
+      );
+    }
+  }
+
+  private filter(biquad: Biquad, x: number): number {
+    // Transposed direct form II
+    const y = biquad.b0 * x + biquad.z1;
+    biquad.z1 = biquad.b1 * x - biquad.a1 * y + biquad.z2;
+    biquad.z2 = biquad.b2 * x - biquad.a2 * y;
+    return y;
+  }
+
+  // BS.1770 stage 1: high shelf (+4 dB above ~1.5 kHz), recomputed for the sample rate
+  private createPreFilter(): Biquad {
+    const f0 = 1681.974450955533;
+    const gain = 3.999843853973347;
+    const q = 0.7071752369554196;
+    const k = Math.tan((Math.PI * f0) / this.sampleRate);
+    const vh = Math.pow(10, gain / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+
+    return {
+      b0: (vh + (vb * k) / q + k * k) / a0,
+      b1: (2 * (k * k - vh)) / a0,
+      b2: (vh - (vb * k) / q + k * k) / a0,
+      a1: (2 * (k * k - 1)) / a0,
+      a2: (1 - k / q + k * k) / a0,
+      z1: 0,
+      z2: 0
+    };
+  }
+
+  // BS.1770 stage 2: RLB high-pass at ~38 Hz
+  private createRlbFilter(): Biquad {
+    const f0 = 38.13547087602444;
+    const q = 0.5003270373238773;
+    const k = Math.tan((Math.PI * f0) / this.sampleRate);
+    const a0 = 1 + k / q + k * k;
+
+    return {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (k * k - 1)) / a0,
+      a2: (1 - k / q + k * k) / a0,
+      z1: 0,
+      z2: 0
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import type { ModTransform } from '../types';
+
+export type EnvelopeStage = 'idle' | 'attack' | 'hold' | 'decay' | 'sustain' | 'release';
+export type EnvelopeRetrigger = NonNullable<ModTransform['retrigger']>;
+
+// Level at which a source counts as "on" unless the transform sets one
+export const DEFAULT_ENVELOPE_THRESHOLD = 0.1;
+
+// Envelope state of one ModMatrix connection. Times are seconds; every step
+// is driven by the real frame dt, so the shape does not depend on frame rate.
+//
+// - neither gate nor trigger: envelope follower. Rises towards the source
+//   with `attack`, holds a peak for `hold`, falls with `decay` (time constants).
+// - trigger: a rising edge through the threshold fires a one-shot
+//   attack → hold → decay to 0, however long the source stays up.
+// - gate (with or without trigger): attack → hold → decay to `sustain` while
+//   the source stays above the threshold, then `release` to 0.
+//
+// `retrigger` decides what a rising edge does while the envelope is still
+// running: 'restart' from 0, 'legato' attack from the current level, or
+// 'off' to ignore it until the envelope is idle.
+export class ModEnvelope {
+  private stage: EnvelopeStage = 'idle';
+  private level = 0;
+  private stageTime = 0; // seconds into the current stage
+  private wasAbove = false;
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  getStage(): EnvelopeStage {
+    return this.stage;
+  }
+
+  reset(): void {
+    this.stage = 'idle';
+    this.level = 0;
+    this.stageTime = 0;
+    this.wasAbove = false;
+  }
+
+  process(input: number, deltaTime: number, transform: ModTransform): number {
+    const dt = Math.max(0, deltaTime);
+    if (!transform.gate && !transform.trigger) {
+      return this.follow(input, dt, transform);
+    }
+
+    const above = input > (transform.threshold ?? DEFAULT_ENVELOPE_THRESHOLD);
+    const rising = above && !this.wasAbove;
+    this.wasAbove = above;
+
+    if (rising) {
+      this.fire(transform.retrigger ?? 'restart');
+    } else if (transform.gate && !above && this.stage !== 'idle' && this.stage !== 'release') {
+      this.enter('release');
+    }
+
+    this.advance(dt, transform);
+    return this.level;
+  }
+
+  private fire(retrigger: EnvelopeRetrigger): void {
+    if (this.stage !== 'idle') {
+      if (retrigger === 'off') return;
+      if (retrigger === 'restart') this.level = 0;
+    }
+    this.enter('attack');
+  }
+
+  private enter(stage: EnvelopeStage): void {
+    this.stage = stage;
+    this.stageTime = 0;
+  }
+
+  // Runs the stages for `dt` seconds; one frame may cross several of them
+  private advance(dt: number, transform: ModTransform): void {
+    const sustain = transform.gate ? Math.max(0, Math.min(1, transform.sustain ?? 1)) : 0;
+    let remaining = dt;
+
+    while (remaining > 0 || this.stageDone(transform, sustain)) {
+      switch (this.stage) {
+        case 'idle':
+        case 'sustain':
+          return;
+
+        case 'attack': {
+          // Linear ramp at full scale per `attack` seconds
+          const needed = transform.attack > 0 ? (1 - this.level) * transform.attack : 0;
+          if (remaining < needed) {
+            this.level += remaining / transform.attack;
+            return;
+          }
+          remaining -= needed;
+          this.level = 1;
+          this.enter('hold');
+          break;
+        }
+
+        case 'hold': {
+          const needed = Math.max(0, transform.hold - this.stageTime);
+          if (remaining < needed) {
+            this.stageTime += remaining;
+            return;
+          }
+          remaining -= needed;
+          this.enter('decay');
+          break;
+        }
+
+        case 'decay': {
+          // From full to the sustain level in `decay` seconds
+          const rate = transform.decay > 0 ? (1 - sustain) / transform.decay : Infinity;
+          const needed = rate === Infinity || this.level <= sustain ? 0 : (this.level - sustain) / rate;
+          if (remaining < needed) {
+            this.level -= remaining * rate;
+            return;
+          }
+          remaining -= Math.max(0, needed);
+          this.level = sustain;
+          this.enter(transform.gate && sustain > 0 ? 'sustain' : 'idle');
+          break;
+        }
+
+        case 'release': {
+          // Full scale to 0 in `release` seconds (the decay time by default)
+          const time = transform.release ?? transform.decay;
+          const needed = time > 0 ? this.level * time : 0;
+          if (remaining < needed) {
+            this.level -= remaining / time;
+            return;
+          }
+          remaining -= needed;
+          this.level = 0;
+          this.enter('idle');
+          break;
+        }
+      }
+    }
+  }
+
+  // Zero-length stages complete even when no time is left this frame
+  private stageDone(transform: ModTransform, sustain: number): boolean {
+    switch (this.stage) {
+      case 'attack':
+        return transform.attack <= 0 || this.level >= 1;
+      case 'hold':
+        return this.stageTime >= transform.hold;
+      case 'decay':
+        return transform.decay <= 0 || this.level <= sustain;
+      case 'release':
+        return (transform.release ?? transform.decay) <= 0 || this.level <= 0;
+      default:
+        return false;
+    }
+  }
+
+  // One-pole follower with peak hold; exponential, so exact for any dt
+  private follow(input: number, dt: number, transform: ModTransform): number {
+    this.wasAbove = false;
+    if (input >= this.level) {
+      this.level = transform.attack > 0
+        ? input + (this.level - input) * Math.exp(-dt / transform.attack)
+        : input;
+      this.stage = 'hold';
+      this.stageTime = 0;
+      return this.level;
+    }
+
+    let remaining = dt;
+    if (this.stage === 'hold') {
+      const holding = Math.max(0, transform.hold - this.stageTime);
+      if (remaining < holding) {
+        this.stageTime += remaining;
+        return this.level;
+      }
+      remaining -= holding;
+      this.stage = 'decay';
+    }
+
+    this.level = transform.decay > 0
+      ? input + (this.level - input) * Math.exp(-remaining / transform.decay)
+      : input;
+    return this.level;
+  }
+}
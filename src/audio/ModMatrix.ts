@@ -1,8 +1,42 @@
+import { MFCC_COUNT, normalizeMfcc } from './TimbreAnalyzer';
+import { LOUDNESS_FLOOR } from './LoudnessMeter';
+import type { MemoryKey } from './EventQueue';
+import { MASTER_SOURCE_ID } from './AnalysisFrame';
+import type { AnalysisFrame } from './AnalysisFrame';
+import { ModEnvelope } from './ModEnvelope';
+import type { ModConnection, ModTransform } from '../types';
+
+// LUFS above the absolute gate → 0-1
+const loudnessToUnit = (lufs?: number): number =>
+  Math.min(1, ((lufs ?? LOUDNESS_FLOOR) - LOUDNESS_FLOOR) / -LOUDNESS_FLOOR);
+
+// Per-band stereo sources (AnalysisFrame.stereoBands)
+const STEREO_BANDS = [
+  { id: 'low', suffix: 'Low' },
+  { id: 'mid', suffix: 'Mid' },
+  { id: 'high', suffix: 'High' }
+];
+
+// Envelope state is per connection: the same source and transform may feed
+// several targets, each with its own envelope
+const connectionKey = (connection: ModConnection): string =>
+  `${connection.sourceId}->${connection.transformId}->${connection.targetId}`;
+
+// EventQueue memory integrators → `memory${suffix}` sources
+const MEMORY_SOURCES: { key: MemoryKey; suffix: string }[] = [
+  { key: 'low', suffix: 'Low' },
+  { key: 'mid', suffix: 'Mid' },
+  { key: 'high', suffix: 'High' },
+  { key: 'full', suffix: 'Full' },
+  { key: 'section', suffix: 'Section' }
+];
+
 export class ModMatrix {
   private sources: any[] = [];
   private transforms: any[] = [];
   private targets: any[] = [];
   private connections: any[] = [];
+  private envelopes = new Map<string, ModEnvelope>();
 
   constructor() {
     this.initializeDefaultSources();
@@ -20,7 +54,27 @@ export class ModMatrix {
       { id: 'onset', name: 'Onset', value: 0, type: 'audio' },
       { id: 'bpm', name: 'BPM', value: 0, type: 'audio' },
       { id: 'centroid', name: 'Centroid', value: 0, type: 'audio' },
+      { id: 'spread', name: 'Spread', value: 0, type: 'audio' },
+      { id: 'flatness', name: 'Flatness', value: 0, type: 'audio' },
+      { id: 'rolloff', name: 'Rolloff', value: 0, type: 'audio' },
+      { id: 'flux', name: 'Flux', value: 0, type: 'audio' },
+      { id: 'zcr', name: 'Zero Crossing', value: 0, type: 'audio' },
+      ...Array.from({ length: MFCC_COUNT }, (_, i) => ({ id: `mfcc${i}`, name: `MFCC ${i}`, value: 0, type: 'audio' })),
       { id: 'pitch', name: 'Pitch', value: 0, type: 'audio' },
+      { id: 'pitchClarity', name: 'Pitch Clarity', value: 0, type: 'audio' },
+      { id: 'loudness', name: 'Loudness', value: 0, type: 'audio' },
+      { id: 'loudnessShortTerm', name: 'Loudness (Short)', value: 0, type: 'audio' },
+      { id: 'balance', name: 'Balance', value: 0.5, type: 'audio' },
+      { id: 'width', name: 'Stereo Width', value: 0, type: 'audio' },
+      { id: 'correlation', name: 'Correlation', value: 0.5, type: 'audio' },
+      ...STEREO_BANDS.flatMap(band => [
+        { id: `balance${band.suffix}`, name: `Balance ${band.suffix}`, value: 0.5, type: 'audio' },
+        { id: `width${band.suffix}`, name: `Width ${band.suffix}`, value: 0, type: 'audio' }
+      ]),
+      { id: 'memory', name: 'Memory', value: 0, type: 'memory' },
+      ...MEMORY_SOURCES.map(memory => (
+        { id: `memory${memory.suffix}`, name: `Memory ${memory.suffix}`, value: 0, type: 'memory' }
+      )),
       { id: 'manual1', name: 'Manual 1', value: 0, type: 'manual' },
       { id: 'manual2', name: 'Manual 2', value: 0, type: 'manual' },
       { id: 'lfo1', name: 'LFO 1', value: 0, type: 'lfo' },
@@ -116,7 +170,10 @@ export class ModMatrix {
     ];
   }
 
-  updateAudioSources(analysis: any): void {
+  // Audio sources follow the master mix by default. Analysis of a named
+  // source (e.g. 'drums', 'mic') updates its own copy of every audio source,
+  // `${sourceId}.${id}` ('drums.onset', 'mic.pitch'), created on first use.
+  updateAudioSources(analysis: any, sourceId: string = MASTER_SOURCE_ID): void {
     const sourceMap: Record<string, number> = {
       low: analysis.low,
       mid: analysis.mid,
@@ -125,13 +182,94 @@ export class ModMatrix {
       peak: analysis.peak,
       onset: analysis.onset ? 1 : 0,
       bpm: analysis.bpm / 200, // Normalize to 0-1
-      centroid: analysis.spectralCentroid / this.sources.length,
-      pitch: analysis.pitch / 2000 // Normalize to 0-1
+      centroid: analysis.spectralCentroid,
+      spread: analysis.spread ?? 0,
+      flatness: analysis.flatness ?? 0,
+      rolloff: analysis.rolloff ?? 0,
+      flux: analysis.flux ?? 0,
+      zcr: analysis.zcr ?? 0,
+      pitch: analysis.pitch ? analysis.pitch / 127 : 0, // MIDI note → 0-1
+      pitchClarity: analysis.pitchClarity ?? 0,
+      loudness: loudnessToUnit(analysis.loudness),
+      loudnessShortTerm: loudnessToUnit(analysis.loudnessShortTerm),
+      // Bipolar stereo values → 0-1, 0.5 = centre / uncorrelated
+      balance: ((analysis.balance ?? 0) + 1) / 2,
+      width: analysis.width ?? 0,
+      correlation: ((analysis.correlation ?? 0) + 1) / 2
     };
 
+    for (const band of STEREO_BANDS) {
+      const image = analysis.stereoBands?.[band.id];
+      if (image) {
+        sourceMap[`balance${band.suffix}`] = (image.balance + 1) / 2;
+        sourceMap[`width${band.suffix}`] = image.width;
+      }
+    }
+
+    if (analysis.mfcc) {
+      normalizeMfcc(analysis.mfcc).forEach((value, i) => {
+        sourceMap[`mfcc${i}`] = value;
+      });
+    }
+
+    if (sourceId === MASTER_SOURCE_ID) {
+      this.sources.forEach(source => {
+        if (source.type === 'audio' && !source.audioSource && sourceMap[source.id] !== undefined) {
+          source.value = sourceMap[source.id];
+        }
+      });
+      return;
+    }
+
+    for (const id in sourceMap) {
+      const namespacedId = `${sourceId}.${id}`;
+      let source = this.sources.find(s => s.id === namespacedId);
+      if (!source) {
+        const base = this.sources.find(s => s.id === id);
+        source = {
+          id: namespacedId,
+          name: `${sourceId}: ${base?.name ?? id}`,
+          value: 0,
+          type: 'audio',
+          audioSource: sourceId
+        };
+        this.sources.push(source);
+      }
+      source.value = sourceMap[id];
+    }
+  }
+
+  // The same sources straight from an AnalysisFrame (FramePipeline)
+  updateFromFrame(frame: AnalysisFrame, sourceId: string = MASTER_SOURCE_ID): void {
+    this.updateAudioSources({
+      ...frame,
+      onset: frame.onsets.length > 0,
+      bpm: frame.bpm ?? 0,
+      spectralCentroid: frame.centroid,
+      loudness: frame.loudnessMomentary
+    }, sourceId);
+  }
+
+  // Drop the sources of a named analysis source and any routing from them
+  removeAudioSources(sourceId: string): void {
+    const removed = new Set(
+      this.sources.filter(source => source.audioSource === sourceId).map(source => source.id)
+    );
+    this.sources = this.sources.filter(source => !removed.has(source.id));
+    this.connections = this.connections.filter(connection => !removed.has(connection.sourceId));
+    this.pruneEnvelopes();
+  }
+
+  // Decayed event memory (EventQueue.getMemories / getMemoryValue), per frame
+  updateMemorySources(memories: Record<MemoryKey, number>, overall: number): void {
+    const values: Record<string, number> = { memory: overall };
+    MEMORY_SOURCES.forEach(memory => {
+      values[`memory${memory.suffix}`] = memories[memory.key];
+    });
+
     this.sources.forEach(source => {
-      if (source.type === 'audio' && sourceMap[source.id] !== undefined) {
-        source.value = sourceMap[source.id];
+      if (source.type === 'memory' && values[source.id] !== undefined) {
+        source.value = values[source.id];
       }
     });
   }
@@ -145,7 +283,8 @@ export class ModMatrix {
     });
   }
 
-  processConnections(): void {
+  // `deltaTime` is the real time since the previous call; envelopes run on it
+  processConnections(deltaTime: number = 1 / 60): void {
     this.connections.forEach(connection => {
       const source = this.sources.find(s => s.id === connection.sourceId);
       const transform = this.transforms.find(t => t.id === connection.transformId);
@@ -159,7 +298,7 @@ export class ModMatrix {
       let value = source.value;
 
       // Apply transform
-      value = this.applyTransform(value, transform);
+      value = this.applyTransform(value, transform, this.getEnvelope(connection), deltaTime);
 
       // Apply connection amount
       value *= connection.amount;
@@ -169,13 +308,9 @@ export class ModMatrix {
     });
   }
 
-  private applyTransform(value: number, transform: ModTransform): number {
-    // Apply envelope if it's a trigger source
-    if (transform.trigger && transform.gate) {
-      // Simplified envelope implementation
-      // In a real implementation, you'd track envelope state per source
-      value = this.applyEnvelope(value, transform);
-    }
+  private applyTransform(value: number, transform: ModTransform, envelope: ModEnvelope, deltaTime: number): number {
+    // Envelope follower, or trigger/gate envelope (see ModEnvelope)
+    value = envelope.process(value, deltaTime, transform);
 
     // Apply curve
     switch (transform.curve) {
@@ -205,12 +340,21 @@ export class ModMatrix {
     return value;
   }
 
-  private applyEnvelope(value: number, transform: ModTransform): number {
-    // Simplified envelope - in reality you'd track state per source
-    if (value > 0.1) { // Trigger threshold
-      return 1.0; // Attack phase
+  private getEnvelope(connection: ModConnection): ModEnvelope {
+    const key = connectionKey(connection);
+    let envelope = this.envelopes.get(key);
+    if (!envelope) {
+      envelope = new ModEnvelope();
+      this.envelopes.set(key, envelope);
+    }
+    return envelope;
+  }
+
+  private pruneEnvelopes(): void {
+    const keys = new Set(this.connections.map(connectionKey));
+    for (const key of this.envelopes.keys()) {
+      if (!keys.has(key)) this.envelopes.delete(key);
     }
-    return value * transform.decay; // Decay phase
   }
 
   // Getters
@@ -237,6 +381,7 @@ export class ModMatrix {
   // Setters
   clearConnections(): void {
     this.connections = [];
+    this.envelopes.clear();
   }
 
   addConnection(connection: any): void {
@@ -247,6 +392,7 @@ export class ModMatrix {
     this.connections = this.connections.filter(
       conn => !(conn.sourceId === sourceId && conn.targetId === targetId)
     );
+    this.pruneEnvelopes();
   }
 
   updateConnectionAmount(sourceId: string, targetId: string, amount: number): void {
@@ -258,6 +404,14 @@ export class ModMatrix {
     }
   }
 
+  // Current envelope level of a connection [0..1], e.g. for meters
+  getEnvelopeLevel(sourceId: string, targetId: string): number {
+    const connection = this.connections.find(
+      conn => conn.sourceId === sourceId && conn.targetId === targetId
+    );
+    return connection ? this.envelopes.get(connectionKey(connection))?.getLevel() ?? 0 : 0;
+  }
+
   updateTransform(transformId: string, updates: any): void {
     const transform = this.transforms.find(t => t.id === transformId);
     if (transform) {
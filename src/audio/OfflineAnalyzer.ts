@@ -0,0 +1,242 @@
+import { FrameAnalyzer } from './FrameAnalyzer';
+import { estimateTempo } from './BeatTracker';
+import { detectSections } from './SectionDetector';
+import type { TrackSection } from './SectionDetector';
+import type { AnalysisFrame } from './AnalysisFrame';
+
+export const TRACK_ANALYSIS_VERSION = 2;
+
+export interface TrackOnset {
+  time: number; // seconds from the start of the track
+  band: 'low'|'mid'|'high'|'full';
+  energy: number;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  offset: number; // first beat (seconds)
+  beats: number[]; // every beat (seconds)
+}
+
+// Whole-track analysis result. Frame times are track positions (seconds from
+// the start of the file), so the map can be replayed without live audio.
+export interface TrackAnalysis {
+  version: number;
+  sampleRate: number;
+  duration: number;
+  fftSize: number;
+  hopSize: number;
+  frames: AnalysisFrame[];
+  onsets: TrackOnset[];
+  beatGrid: BeatGrid;
+  sections: TrackSection[];
+}
+
+export interface OfflineAnalysisOptions {
+  fftSize?: number;
+  hopSize?: number;
+  minBpm?: number;
+  maxBpm?: number;
+  onProgress?: (progress: number) => void; // 0..1
+}
+
+// Frames analysed between yields to the event loop
+const FRAMES_PER_CHUNK = 256;
+
+// Runs the same FrameAnalyzer as the live worklet over a decoded AudioBuffer,
+// much faster than real time, and derives onsets, a beat grid and song
+// sections from it.
+export class OfflineAnalyzer {
+  async analyze(buffer: AudioBuffer, options: OfflineAnalysisOptions = {}): Promise<TrackAnalysis> {
+    const stereo: [Float32Array, Float32Array] | undefined = buffer.numberOfChannels >= 2
+      ? [buffer.getChannelData(0), buffer.getChannelData(1)]
+      : undefined;
+    return this.analyzeSamples(this.downmix(buffer), buffer.sampleRate, options, stereo);
+  }
+
+  // Mono PCM in, no Web Audio objects needed: usable from Node and tests.
+  // `stereo` are the left/right channels behind `samples`, for loudness and
+  // the stereo image; without them the track is treated as mono.
+  async analyzeSamples(
+    samples: Float32Array,
+    sampleRate: number,
+    options: OfflineAnalysisOptions = {},
+    stereo?: [Float32Array, Float32Array]
+  ): Promise<TrackAnalysis> {
+    const fftSize = options.fftSize ?? 2048;
+    const hopSize = options.hopSize ?? 512;
+    const duration = samples.length / sampleRate;
+    const analyzer = new FrameAnalyzer(sampleRate, fftSize);
+
+    const frames: AnalysisFrame[] = [];
+    const onsets: TrackOnset[] = [];
+    const envelope: number[] = [];
+    const window = new Float32Array(fftSize);
+    const channelWindows: [Float32Array, Float32Array] = [new Float32Array(fftSize), new Float32Array(fftSize)];
+    let previousSpectrum: Float32Array | null = null;
+
+    const frameCount = Math.max(1, Math.ceil(samples.length / hopSize));
+    for (let index = 0; index < frameCount; index++) {
+      // Window ends at the hop boundary, like the live worklet
+      const end = (index + 1) * hopSize;
+      const start = end - fftSize;
+      window.fill(0);
+      window.set(samples.subarray(Math.max(0, start), Math.min(end, samples.length)), Math.max(0, -start));
+      stereo?.forEach((channel, c) => {
+        channelWindows[c].fill(0);
+        channelWindows[c].set(channel.subarray(Math.max(0, start), Math.min(end, channel.length)), Math.max(0, -start));
+      });
+
+      const time = end / sampleRate;
+      const frame = analyzer.analyze(window, time, stereo ? channelWindows : undefined);
+      frames.push(frame);
+      onsets.push(...frame.onsets.map(({ band, energy }) => ({ time, band, energy })));
+
+      const spectrum = analyzer.getFrequencyData();
+      envelope.push(previousSpectrum ? this.spectralFlux(spectrum, previousSpectrum) : 0);
+      previousSpectrum = Float32Array.from(spectrum);
+
+      if (index % FRAMES_PER_CHUNK === FRAMES_PER_CHUNK - 1) {
+        options.onProgress?.(index / frameCount);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    options.onProgress?.(1);
+
+    const beatGrid = this.estimateBeatGrid(
+      envelope,
+      sampleRate / hopSize,
+      fftSize / 2 / sampleRate,
+      duration,
+      options.minBpm ?? 60,
+      options.maxBpm ?? 180
+    );
+
+    return {
+      version: TRACK_ANALYSIS_VERSION,
+      sampleRate,
+      duration,
+      fftSize,
+      hopSize,
+      frames,
+      onsets,
+      beatGrid,
+      sections: detectSections(frames)
+    };
+  }
+
+  private downmix(buffer: AudioBuffer): Float32Array {
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < buffer.length; i++) {
+        mono[i] += channel[i] / buffer.numberOfChannels;
+      }
+    }
+    return mono;
+  }
+
+  // Half-wave rectified flux of linear magnitudes (spectra are in dB)
+  private spectralFlux(current: Float32Array, previous: Float32Array): number {
+    let flux = 0;
+    for (let i = 0; i < current.length; i++) {
+      const diff = Math.pow(10, current[i] / 20) - Math.pow(10, previous[i] / 20);
+      if (diff > 0) flux += diff;
+    }
+    return flux;
+  }
+
+  // Tempo by autocorrelation of the onset envelope, phase by the offset whose
+  // beat positions collect the most envelope energy.
+  private estimateBeatGrid(
+    envelope: number[],
+    framesPerSecond: number,
+    windowLatency: number,
+    duration: number,
+    minBpm: number,
+    maxBpm: number
+  ): BeatGrid {
+    const tempo = estimateTempo(Float32Array.from(envelope), framesPerSecond, minBpm, maxBpm);
+    if (!tempo) {
+      return { bpm: 0, offset: 0, beats: [] };
+    }
+
+    // Step by the fractional period so the phase does not drift along the track
+    const { bpm, period } = tempo;
+    let bestPhase = 0;
+    let bestPhaseScore = -1;
+    for (let phase = 0; phase < period; phase++) {
+      let score = 0;
+      for (let position = phase; Math.round(position) < envelope.length; position += period) {
+        score += envelope[Math.round(position)];
+      }
+      if (score > bestPhaseScore) {
+        bestPhaseScore = score;
+        bestPhase = phase;
+      }
+    }
+
+    const interval = 60 / bpm;
+    // Envelope index i describes the window ending at (i + 1) hops; transients
+    // peak in the flux once they reach the window centre
+    const offset = (((bestPhase + 1) / framesPerSecond - windowLatency) % interval + interval) % interval;
+    const beats: number[] = [];
+    for (let t = offset; t < duration; t += interval) {
+      beats.push(t);
+    }
+
+    return { bpm, offset, beats };
+  }
+}
+
+// Latest frame at or before `time` (binary search over track positions)
+export const getTrackFrameAt = (analysis: TrackAnalysis, time: number): AnalysisFrame | null => {
+  const { frames } = analysis;
+  let low = 0;
+  let high = frames.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].time <= time) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result >= 0 ? frames[result] : null;
+};
+
+// Seconds, stored to 0.1 ms. At 5 significant digits a time past 100 s would
+// lose whole milliseconds, and a beat grid would drift.
+const TIME_KEYS = new Set(['time', 't', 'trackPosition', 'duration', 'offset', 'start', 'end', 'beats']);
+const timeArrays = new WeakSet<unknown[]>(); // arrays whose elements are times (beatGrid.beats)
+
+// JSON.stringify replacer for compact storage: times rounded to 0.1 ms, other
+// floats to 5 significant digits. A function, since array elements are only
+// recognised as times through their holder (`this`).
+export function compactNumbers(this: unknown, key: string, value: unknown): unknown {
+  if (Array.isArray(value) && TIME_KEYS.has(key)) {
+    timeArrays.add(value);
+    return value;
+  }
+  if (typeof value !== 'number' || Number.isInteger(value)) return value;
+
+  const isTime = TIME_KEYS.has(key) || (Array.isArray(this) && timeArrays.has(this));
+  return isTime ? Math.round(value * 10000) / 10000 : Number(value.toPrecision(5));
+}
+
+// Compact JSON for per-track caching
+export const serializeTrackAnalysis = (analysis: TrackAnalysis): string => {
+  return JSON.stringify(analysis, compactNumbers);
+};
+
+export const parseTrackAnalysis = (json: string): TrackAnalysis => {
+  const analysis = JSON.parse(json) as TrackAnalysis;
+  if (analysis.version !== TRACK_ANALYSIS_VERSION) {
+    throw new Error(`Unsupported track analysis version: ${analysis.version}`);
+  }
+  return analysis;
+};
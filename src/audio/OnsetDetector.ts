@@ -0,0 +1,147 @@
+export type OnsetBand = 'low'|'mid'|'high'|'full';
+
+export interface OnsetBandConfig {
+  sensitivity: number; // 0..1 (higher detects more onsets)
+  minInterval: number; // seconds between onsets, at least
+}
+
+export interface DetectedOnset {
+  band: OnsetBand;
+  energy: number; // 0..1, how far the flux cleared the threshold
+  time: number;
+}
+
+export const ONSET_BANDS: OnsetBand[] = ['low', 'mid', 'high', 'full'];
+
+export const DEFAULT_ONSET_CONFIG: Record<OnsetBand, OnsetBandConfig> = {
+  low: { sensitivity: 0.5, minInterval: 0.1 },
+  mid: { sensitivity: 0.5, minInterval: 0.08 },
+  high: { sensitivity: 0.5, minInterval: 0.05 },
+  full: { sensitivity: 0.5, minInterval: 0.08 }
+};
+
+// Log compression of linear magnitudes before differencing
+const COMPRESSION = 100;
+// Flux below this never counts, so digital silence cannot trigger
+const MIN_FLUX = 0.005;
+// Past flux values used for the median / MAD statistics
+const HISTORY_SIZE = 43;
+
+interface BandState {
+  history: number[];
+  previousFlux: number;
+  lastOnsetTime: number;
+}
+
+// Spectral-flux onset detector with an adaptive median + k·MAD threshold
+// per band and a minimum inter-onset interval.
+export class OnsetDetector {
+  private config: Record<OnsetBand, OnsetBandConfig>;
+  private previousMagnitudes: Float32Array | null = null;
+  private bands: Record<OnsetBand, BandState>;
+
+  constructor(config: Partial<Record<OnsetBand, Partial<OnsetBandConfig>>> = {}) {
+    this.config = { ...DEFAULT_ONSET_CONFIG };
+    for (const band of ONSET_BANDS) {
+      this.config[band] = { ...DEFAULT_ONSET_CONFIG[band], ...config[band] };
+    }
+    this.bands = this.createBandStates();
+  }
+
+  setBandConfig(band: OnsetBand, updates: Partial<OnsetBandConfig>): void {
+    this.config[band] = { ...this.config[band], ...updates };
+  }
+
+  getConfig(): Record<OnsetBand, OnsetBandConfig> {
+    return { ...this.config };
+  }
+
+  // Flux of the most recent frame, for downstream tempo tracking
+  getFlux(band: OnsetBand): number {
+    return this.bands[band].previousFlux;
+  }
+
+  reset(): void {
+    this.previousMagnitudes = null;
+    this.bands = this.createBandStates();
+  }
+
+  // `magnitudes` are linear bin magnitudes; `bins` maps each band to [start, end)
+  process(
+    magnitudes: Float32Array,
+    bins: Record<OnsetBand, [number, number]>,
+    time: number
+  ): DetectedOnset[] {
+    const onsets: DetectedOnset[] = [];
+
+    if (!this.previousMagnitudes || this.previousMagnitudes.length !== magnitudes.length) {
+      // First frame after a reset: store the spectrum, nothing to compare against
+      this.previousMagnitudes = Float32Array.from(magnitudes);
+      return onsets;
+    }
+
+    for (const band of ONSET_BANDS) {
+      const [start, end] = bins[band];
+      const flux = this.bandFlux(magnitudes, start, end);
+      const state = this.bands[band];
+      const config = this.config[band];
+
+      if (state.history.length >= 4) {
+        const threshold = Math.max(MIN_FLUX, this.adaptiveThreshold(state.history, config.sensitivity));
+        const rising = flux > threshold && flux >= state.previousFlux;
+        const spaced = time - state.lastOnsetTime >= config.minInterval;
+
+        if (rising && spaced) {
+          onsets.push({ band, energy: Math.min(1, 1 - threshold / flux), time });
+          state.lastOnsetTime = time;
+        }
+      }
+
+      state.previousFlux = flux;
+      state.history.push(flux);
+      if (state.history.length > HISTORY_SIZE) {
+        state.history.shift();
+      }
+    }
+
+    this.previousMagnitudes.set(magnitudes);
+    return onsets;
+  }
+
+  private bandFlux(magnitudes: Float32Array, start: number, end: number): number {
+    const previous = this.previousMagnitudes!;
+    let flux = 0;
+    for (let i = start; i < end; i++) {
+      const diff = Math.log1p(COMPRESSION * magnitudes[i]) - Math.log1p(COMPRESSION * previous[i]);
+      if (diff > 0) {
+        flux += diff;
+      }
+    }
+    return end > start ? flux / (end - start) : 0;
+  }
+
+  private adaptiveThreshold(history: number[], sensitivity: number): number {
+    const sorted = [...history].sort((a, b) => a - b);
+    const median = this.median(sorted);
+    const deviations = sorted.map(value => Math.abs(value - median)).sort((a, b) => a - b);
+    // 1.4826·MAD estimates the standard deviation for normally distributed flux
+    const mad = 1.4826 * this.median(deviations);
+
+    // sensitivity 0 → k = 5 (strict), 1 → k = 1 (loose)
+    const k = 5 - 4 * Math.max(0, Math.min(1, sensitivity));
+    return median + k * mad;
+  }
+
+  private median(sorted: number[]): number {
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+
+  private createBandStates(): Record<OnsetBand, BandState> {
+    const bands = {} as Record<OnsetBand, BandState>;
+    for (const band of ONSET_BANDS) {
+      bands[band] = { history: [], previousFlux: 0, lastOnsetTime: -Infinity };
+    }
+    return bands;
+  }
+}
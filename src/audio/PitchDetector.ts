@@ -0,0 +1,127 @@
+import { FFT } from './FFT';
+
+export interface PitchEstimate {
+  frequency: number; // Hz
+  midi: number; // nearest MIDI note
+  cents: number; // offset from the MIDI note (-50..50)
+  clarity: number; // 0..1 (1 = pure tone)
+}
+
+export interface PitchDetectorOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  threshold?: number;
+}
+
+// Below this RMS the frame is treated as silence and never pitched
+const SILENCE_RMS = 0.005;
+
+export const frequencyToMidi = (frequency: number): number => 69 + 12 * Math.log2(frequency / 440);
+
+// YIN fundamental frequency estimator (de Cheveigné & Kawahara 2002):
+// cumulative mean normalised difference, absolute threshold and parabolic
+// interpolation. Returns null for silence and for unpitched frames.
+// The difference function comes from an FFT cross-correlation, since this
+// runs on the audio thread for every channel and hop.
+export class PitchDetector {
+  private sampleRate: number;
+  private minFrequency: number;
+  private maxFrequency: number;
+  private threshold: number;
+  private difference = new Float32Array(0);
+  private correlation = new Float32Array(0);
+  private squares = new Float64Array(0); // running sum of squares
+  private fft: FFT | null = null;
+
+  constructor(sampleRate: number, options: PitchDetectorOptions = {}) {
+    this.sampleRate = sampleRate;
+    this.minFrequency = options.minFrequency ?? 50;
+    this.maxFrequency = options.maxFrequency ?? 4000;
+    this.threshold = options.threshold ?? 0.15;
+  }
+
+  detect(timeData: Float32Array): PitchEstimate | null {
+    const size = timeData.length;
+    // The lag range has to leave an integration window of at least half the frame
+    const maxTau = Math.min(Math.floor(this.sampleRate / this.minFrequency), size >> 1);
+    const minTau = Math.max(2, Math.floor(this.sampleRate / this.maxFrequency));
+    if (maxTau <= minTau + 1) return null;
+
+    if (this.squares.length !== size + 1) {
+      this.squares = new Float64Array(size + 1);
+    }
+    for (let i = 0; i < size; i++) {
+      this.squares[i + 1] = this.squares[i] + timeData[i] * timeData[i];
+    }
+    if (Math.sqrt(this.squares[size] / size) < SILENCE_RMS) return null;
+
+    const window = size - maxTau;
+    if (this.difference.length !== maxTau + 1) {
+      this.difference = new Float32Array(maxTau + 1);
+    }
+    const d = this.difference;
+
+    // Difference function: d(tau) = Σ (x[i] - x[i+tau])² over the window
+    // = energy of x[0, window) + energy of x[tau, tau+window) - 2·r(tau)
+    const r = this.crossCorrelate(timeData, window, maxTau);
+    const squares = this.squares;
+    const windowEnergy = squares[window];
+    d[0] = 0;
+    for (let tau = 1; tau <= maxTau; tau++) {
+      const shiftedEnergy = squares[tau + window] - squares[tau];
+      d[tau] = Math.max(0, windowEnergy + shiftedEnergy - 2 * r[tau]);
+    }
+
+    // Cumulative mean normalised difference
+    d[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= maxTau; tau++) {
+      runningSum += d[tau];
+      d[tau] = runningSum > 0 ? (d[tau] * tau) / runningSum : 1;
+    }
+
+    // First dip under the threshold, followed down to its local minimum
+    let tau = minTau;
+    for (; tau < maxTau; tau++) {
+      if (d[tau] < this.threshold) {
+        while (tau + 1 < maxTau && d[tau + 1] < d[tau]) {
+          tau++;
+        }
+        break;
+      }
+    }
+    if (tau >= maxTau) return null;
+
+    // Parabolic interpolation around the minimum
+    const a = d[tau - 1], b = d[tau], c = d[tau + 1];
+    const denominator = a - 2 * b + c;
+    const shift = denominator > 0 ? Math.max(-1, Math.min(1, (0.5 * (a - c)) / denominator)) : 0;
+
+    const frequency = this.sampleRate / (tau + shift);
+    const exactMidi = frequencyToMidi(frequency);
+    const midi = Math.round(exactMidi);
+
+    return {
+      frequency,
+      midi,
+      cents: (exactMidi - midi) * 100,
+      clarity: Math.max(0, Math.min(1, 1 - b))
+    };
+  }
+
+  // r(tau) = Σ_{i < window} x[i]·x[i + tau] for tau = 0..maxTau
+  private crossCorrelate(timeData: Float32Array, window: number, maxTau: number): Float32Array {
+    const size = timeData.length;
+    let fftSize = 2;
+    while (fftSize < size) fftSize <<= 1;
+    if (!this.fft || this.fft.size !== fftSize) {
+      this.fft = new FFT(fftSize);
+    }
+    if (this.correlation.length !== maxTau + 1) {
+      this.correlation = new Float32Array(maxTau + 1);
+    }
+
+    this.fft.correlate(timeData.subarray(0, window), timeData, this.correlation);
+    return this.correlation;
+  }
+}
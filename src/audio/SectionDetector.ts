@@ -0,0 +1,293 @@
+import { normalizeMfcc } from './TimbreAnalyzer';
+import { LOUDNESS_FLOOR } from './LoudnessMeter';
+import type { AnalysisFrame } from './AnalysisFrame';
+
+export type SectionLabel = 'intro' | 'verse' | 'chorus' | 'drop' | 'breakdown' | 'outro';
+
+export interface SectionChange {
+  label: SectionLabel;
+  novelty: number; // boundary strength [0..1]
+}
+
+export interface TrackSection {
+  start: number; // seconds
+  end: number; // seconds
+  label: SectionLabel;
+  loudness: number; // mean loudness (LUFS)
+}
+
+// Features are averaged over short blocks before comparing
+const BLOCK_SECONDS = 0.5;
+const MIN_SECTION_SECONDS = 8;
+// Online novelty: the last RECENT_BLOCKS against the PAST_BLOCKS before them
+const RECENT_BLOCKS = 4;
+const PAST_BLOCKS = 12;
+const NOVELTY_HISTORY_BLOCKS = 60;
+const NOVELTY_MAD_FACTOR = 3;
+const MIN_NOVELTY = 0.08;
+// A drop: loudness jumps by this much (LU) over the past window with strong lows
+const DROP_JUMP_LU = 6;
+const DROP_MIN_LOW = 0.5;
+// Labels relative to the track's integrated loudness (LU)
+const CHORUS_LU = 1;
+const BREAKDOWN_LU = -4;
+const EDGE_LU = -2; // intro / outro
+// Offline: checkerboard kernel half-width and repeated-section distance
+const KERNEL_HALF_BLOCKS = 8;
+const REPEAT_DISTANCE = 0.12;
+
+interface SectionBlock {
+  time: number; // end of the block (seconds)
+  chroma: number[];
+  timbre: number[];
+  loudness: number; // LUFS (mean momentary)
+  low: number;
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[sorted.length >> 1];
+};
+
+// Chroma, MFCC shape (c1..) and loudness of one block, all roughly 0..1
+class BlockAccumulator {
+  private chroma = new Array(12).fill(0);
+  private timbre: number[] = [];
+  private loudness = 0;
+  private low = 0;
+  private count = 0;
+  private startTime: number | null = null;
+
+  add(frame: AnalysisFrame): SectionBlock | null {
+    if (this.startTime === null) {
+      this.startTime = frame.time;
+    }
+
+    const chroma = frame.chroma ?? [];
+    for (let i = 0; i < 12; i++) {
+      this.chroma[i] += chroma[i] ?? 0;
+    }
+    const timbre = frame.mfcc ? normalizeMfcc(frame.mfcc).slice(1) : [];
+    timbre.forEach((value, i) => {
+      this.timbre[i] = (this.timbre[i] ?? 0) + value;
+    });
+    this.loudness += frame.loudnessMomentary;
+    this.low += frame.low;
+    this.count++;
+
+    if (frame.time - this.startTime < BLOCK_SECONDS) return null;
+
+    const block: SectionBlock = {
+      time: frame.time,
+      chroma: this.chroma.map(value => value / this.count),
+      timbre: this.timbre.map(value => value / this.count),
+      loudness: this.loudness / this.count,
+      low: this.low / this.count
+    };
+    this.reset();
+    return block;
+  }
+
+  reset(): void {
+    this.chroma.fill(0);
+    this.timbre = [];
+    this.loudness = 0;
+    this.low = 0;
+    this.count = 0;
+    this.startTime = null;
+  }
+}
+
+const averageBlocks = (blocks: SectionBlock[]): SectionBlock => ({
+  time: blocks[blocks.length - 1]?.time ?? 0,
+  chroma: Array.from({ length: 12 }, (_, i) => mean(blocks.map(block => block.chroma[i]))),
+  timbre: Array.from(
+    { length: blocks[0]?.timbre.length ?? 0 },
+    (_, i) => mean(blocks.map(block => block.timbre[i] ?? 0))
+  ),
+  loudness: mean(blocks.map(block => block.loudness)),
+  low: mean(blocks.map(block => block.low))
+});
+
+// RMS difference per feature group, averaged over chroma / timbre / loudness
+const blockDistance = (a: SectionBlock, b: SectionBlock): number => {
+  const rms = (x: number[], y: number[]) => {
+    const n = Math.min(x.length, y.length);
+    if (n === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += (x[i] - y[i]) * (x[i] - y[i]);
+    }
+    return Math.sqrt(sum / n);
+  };
+  const loudness = Math.min(1, Math.abs(a.loudness - b.loudness) / -LOUDNESS_FLOOR * 4);
+  return (rms(a.chroma, b.chroma) + rms(a.timbre, b.timbre) + loudness) / 3;
+};
+
+const classify = (
+  section: SectionBlock,
+  previous: SectionBlock | null,
+  reference: number
+): SectionLabel => {
+  if (previous && section.loudness - previous.loudness >= DROP_JUMP_LU && section.low >= DROP_MIN_LOW) {
+    return 'drop';
+  }
+  if (section.loudness <= reference + BREAKDOWN_LU) return 'breakdown';
+  if (section.loudness >= reference + CHORUS_LU) return 'chorus';
+  return 'verse';
+};
+
+// Online segmentation over the live frame stream: compares the last ~2s of
+// block features with the ~6s before them and reports a change when the
+// novelty stands out from its recent history. Loudness jumps with strong lows
+// are reported as drops straight away.
+export class SectionDetector {
+  private accumulator = new BlockAccumulator();
+  private blocks: SectionBlock[] = [];
+  private noveltyHistory: number[] = [];
+  private lastChangeTime: number | null = null;
+  private label: SectionLabel = 'intro';
+  private novelty = 0;
+
+  reset(): void {
+    this.accumulator.reset();
+    this.blocks = [];
+    this.noveltyHistory = [];
+    this.lastChangeTime = null;
+    this.label = 'intro';
+    this.novelty = 0;
+  }
+
+  getLabel(): SectionLabel {
+    return this.label;
+  }
+
+  getNovelty(): number {
+    return this.novelty;
+  }
+
+  process(frame: AnalysisFrame): SectionChange | null {
+    const block = this.accumulator.add(frame);
+    if (!block) return null;
+
+    this.blocks.push(block);
+    if (this.blocks.length > RECENT_BLOCKS + PAST_BLOCKS) {
+      this.blocks.shift();
+    }
+    if (this.lastChangeTime === null) {
+      this.lastChangeTime = block.time;
+    }
+    if (this.blocks.length < RECENT_BLOCKS + PAST_BLOCKS) return null;
+
+    const past = averageBlocks(this.blocks.slice(0, PAST_BLOCKS));
+    const recent = averageBlocks(this.blocks.slice(PAST_BLOCKS));
+    this.novelty = blockDistance(past, recent);
+
+    const center = median(this.noveltyHistory);
+    const spread = median(this.noveltyHistory.map(value => Math.abs(value - center)));
+    const threshold = Math.max(MIN_NOVELTY, center + NOVELTY_MAD_FACTOR * spread);
+    this.noveltyHistory.push(this.novelty);
+    if (this.noveltyHistory.length > NOVELTY_HISTORY_BLOCKS) {
+      this.noveltyHistory.shift();
+    }
+
+    if (block.time - this.lastChangeTime < MIN_SECTION_SECONDS) return null;
+
+    const latest = this.blocks[this.blocks.length - 1];
+    const isDrop = latest.loudness - past.loudness >= DROP_JUMP_LU && latest.low >= DROP_MIN_LOW;
+    if (!isDrop && this.novelty < threshold) return null;
+
+    const reference = frame.loudnessIntegrated;
+    const label = isDrop ? 'drop' : classify(recent, past, reference);
+    this.lastChangeTime = block.time;
+    this.label = label;
+    return { label, novelty: Math.min(1, this.novelty) };
+  }
+}
+
+// Offline segmentation of a whole track: Foote novelty over the block
+// self-similarity matrix, peaks at least MIN_SECTION_SECONDS apart, then
+// labels from loudness, low end and repetition.
+export const detectSections = (frames: AnalysisFrame[]): TrackSection[] => {
+  if (frames.length === 0) return [];
+
+  const accumulator = new BlockAccumulator();
+  const blocks: SectionBlock[] = [];
+  for (const frame of frames) {
+    const block = accumulator.add(frame);
+    if (block) blocks.push(block);
+  }
+  const duration = frames[frames.length - 1].time;
+  if (blocks.length < 2 * KERNEL_HALF_BLOCKS) {
+    return [{ start: 0, end: duration, label: 'verse', loudness: mean(blocks.map(block => block.loudness)) }];
+  }
+
+  // Checkerboard kernel with a Gaussian taper over the similarity matrix
+  const n = blocks.length;
+  const similarity = (i: number, j: number) => 1 - blockDistance(blocks[i], blocks[j]);
+  const novelty = new Array(n).fill(0);
+  for (let center = KERNEL_HALF_BLOCKS; center < n - KERNEL_HALF_BLOCKS; center++) {
+    let sum = 0;
+    for (let u = -KERNEL_HALF_BLOCKS; u < KERNEL_HALF_BLOCKS; u++) {
+      for (let v = -KERNEL_HALF_BLOCKS; v < KERNEL_HALF_BLOCKS; v++) {
+        const sign = (u < 0) === (v < 0) ? 1 : -1;
+        const taper = Math.exp(-((u + 0.5) ** 2 + (v + 0.5) ** 2) / (KERNEL_HALF_BLOCKS * KERNEL_HALF_BLOCKS));
+        sum += sign * taper * similarity(center + u, center + v);
+      }
+    }
+    novelty[center] = Math.max(0, sum);
+  }
+
+  const noveltyMean = mean(novelty);
+  const noveltyStd = Math.sqrt(mean(novelty.map(value => (value - noveltyMean) ** 2)));
+  const minDistance = Math.round(MIN_SECTION_SECONDS / BLOCK_SECONDS);
+  const candidates = novelty
+    .map((value, index) => ({ value, index }))
+    .filter(({ value, index }) => {
+      if (value <= noveltyMean + 0.5 * noveltyStd) return false;
+      for (let k = Math.max(0, index - (minDistance >> 1)); k <= Math.min(n - 1, index + (minDistance >> 1)); k++) {
+        if (novelty[k] > value) return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.value - a.value);
+
+  // Strongest peaks first, keeping sections at least MIN_SECTION_SECONDS long
+  const boundaries: number[] = [];
+  for (const { index } of candidates) {
+    if (index < minDistance || n - index < minDistance) continue;
+    if (boundaries.every(other => Math.abs(other - index) >= minDistance)) {
+      boundaries.push(index);
+    }
+  }
+  boundaries.sort((a, b) => a - b);
+
+  const edges = [0, ...boundaries, n];
+  const summaries = edges.slice(0, -1).map((start, i) => averageBlocks(blocks.slice(start, edges[i + 1])));
+  const reference = median(blocks.map(block => block.loudness));
+
+  return summaries.map((summary, i) => {
+    const previous = i > 0 ? summaries[i - 1] : null;
+    const repeated = summaries.some((other, j) => j !== i && blockDistance(summary, other) < REPEAT_DISTANCE);
+    const isEdge = i === 0 || i === summaries.length - 1;
+
+    let label = classify(summary, previous, reference);
+    if (isEdge && summary.loudness <= reference + EDGE_LU && label !== 'drop') {
+      label = i === 0 ? 'intro' : 'outro';
+    } else if (label === 'verse' && repeated && summary.loudness >= reference) {
+      label = 'chorus';
+    }
+
+    const startBlock = edges[i];
+    return {
+      start: startBlock === 0 ? 0 : blocks[startBlock - 1].time,
+      end: i === summaries.length - 1 ? duration : blocks[edges[i + 1] - 1].time,
+      label,
+      loudness: summary.loudness
+    };
+  });
+};
@@ -0,0 +1,178 @@
+import { compactNumbers } from './OfflineAnalyzer';
+import { eventsFromFrame } from './EventQueue';
+import type { AnalysisFrame, AudioEvent } from './AnalysisFrame';
+
+export const SESSION_VERSION = 1;
+export const SESSION_MIME_TYPE = 'application/x-ndjson';
+// Longest recording kept; frames after it are dropped until stop()
+export const MAX_RECORDING_SECONDS = 60 * 60;
+// Lines buffered as strings before they move into a Blob (~5 s of frames)
+const FLUSH_LINES = 512;
+
+// A recorded show. All times are seconds from the first recorded frame.
+export interface RecordedSession {
+  version: number;
+  startedAt: string; // ISO 8601
+  duration: number; // seconds
+  frames: AnalysisFrame[];
+  events: AudioEvent[];
+}
+
+// JSON Lines: a header line, then one line per frame or event in time order
+type SessionLine =
+  | { type: 'session'; version: number; startedAt: string; duration: number }
+  | { type: 'frame'; frame: AnalysisFrame }
+  | { type: 'event'; event: AudioEvent };
+
+// Shifts every timestamp in a frame by `offset` seconds
+export const shiftFrame = (frame: AnalysisFrame, offset: number): AnalysisFrame => ({
+  ...frame,
+  time: frame.time + offset,
+  onsets: frame.onsets.map(onset => ({ ...onset, time: onset.time + offset }))
+});
+
+const sessionLine = (line: SessionLine): string => JSON.stringify(line, compactNumbers);
+
+const headerLine = (startedAt: string, duration: number): string =>
+  sessionLine({ type: 'session', version: SESSION_VERSION, startedAt, duration });
+
+export const serializeSession = (session: RecordedSession): string => {
+  const lines: SessionLine[] = [
+    { type: 'session', version: session.version, startedAt: session.startedAt, duration: session.duration }
+  ];
+
+  // Merge frames and events into one time-ordered stream
+  let e = 0;
+  for (const frame of session.frames) {
+    while (e < session.events.length && session.events[e].t < frame.time) {
+      lines.push({ type: 'event', event: session.events[e++] });
+    }
+    lines.push({ type: 'frame', frame });
+  }
+  while (e < session.events.length) {
+    lines.push({ type: 'event', event: session.events[e++] });
+  }
+
+  return lines.map(sessionLine).join('\n') + '\n';
+};
+
+export const parseSession = (text: string): RecordedSession => {
+  const session: RecordedSession = { version: 0, startedAt: '', duration: 0, frames: [], events: [] };
+
+  text.split('\n').forEach((raw, index) => {
+    if (raw.trim() === '') return;
+
+    const line = JSON.parse(raw) as SessionLine;
+    switch (line.type) {
+      case 'session':
+        if (line.version !== SESSION_VERSION) {
+          throw new Error(`Unsupported session version: ${line.version}`);
+        }
+        session.version = line.version;
+        session.startedAt = line.startedAt;
+        session.duration = line.duration;
+        break;
+      case 'frame':
+        session.frames.push(line.frame);
+        break;
+      case 'event':
+        session.events.push(line.event);
+        break;
+      default:
+        throw new Error(`Unknown session line ${index + 1}`);
+    }
+  });
+
+  if (session.version === 0) {
+    throw new Error('Not a recorded session: header line missing');
+  }
+  return session;
+};
+
+// Captures the live AnalysisFrame stream, and the AudioEvents it produces,
+// with timestamps relative to the first frame. Lines are serialized as they
+// arrive and collected in Blob chunks, so a long show never holds its frames
+// as objects, and the file comes out of stop() without one giant string.
+export class SessionRecorder {
+  private parts: Blob[] = [];
+  private pending: string[] = [];
+  private maxSeconds: number;
+  private origin: number | null = null;
+  private duration = 0;
+  private frameCount = 0;
+  private startedAt = '';
+  private recording = false;
+  private full = false;
+
+  constructor(maxSeconds = MAX_RECORDING_SECONDS) {
+    this.maxSeconds = maxSeconds;
+  }
+
+  start(): void {
+    this.parts = [];
+    this.pending = [];
+    this.origin = null;
+    this.duration = 0;
+    this.frameCount = 0;
+    this.startedAt = new Date().toISOString();
+    this.recording = true;
+    this.full = false;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  // Seconds recorded so far
+  getDuration(): number {
+    return this.duration;
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  record(frame: AnalysisFrame): void {
+    if (!this.recording || this.full) return;
+
+    if (this.origin === null) {
+      this.origin = frame.time;
+    }
+    const offset = -this.origin;
+    const shifted = shiftFrame(frame, offset);
+    if (shifted.time > this.maxSeconds) {
+      this.full = true;
+      console.warn(`Session recording reached ${this.maxSeconds} s; later frames are not recorded`);
+      return;
+    }
+
+    eventsFromFrame(frame).forEach(event => {
+      this.pending.push(sessionLine({ type: 'event', event: { ...event, t: event.t + offset } }));
+    });
+    this.pending.push(sessionLine({ type: 'frame', frame: shifted }));
+    this.duration = shifted.time;
+    this.frameCount++;
+
+    if (this.pending.length >= FLUSH_LINES) {
+      this.flush();
+    }
+  }
+
+  // The recording as a JSON Lines file (see serializeSession)
+  stop(): Blob {
+    this.recording = false;
+    this.flush();
+    const file = new Blob([headerLine(this.startedAt, this.duration) + '\n', ...this.parts], {
+      type: SESSION_MIME_TYPE
+    });
+    this.parts = [];
+    return file;
+  }
+
+  private flush(): void {
+    if (this.pending.length === 0) return;
+
+    this.parts.push(new Blob([this.pending.join('\n') + '\n']));
+    this.pending = [];
+  }
+}
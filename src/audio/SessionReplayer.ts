@@ -0,0 +1,159 @@
+import { shiftFrame } from './SessionRecorder';
+import type { RecordedSession } from './SessionRecorder';
+import type { AnalysisFrame } from './AnalysisFrame';
+
+export interface SessionReplayOptions {
+  loop?: boolean;
+  clock?: () => number; // seconds; defaults to performance.now()
+  historySeconds?: number; // how far back getFramesSince reaches
+}
+
+const defaultClock = () => performance.now() / 1000;
+// Loop length of a session that holds a single frame
+const SINGLE_FRAME_SECONDS = 0.01;
+
+// Plays a recorded session back as if it were live analysis: frames come out
+// at their recorded pace with timestamps on the replay clock, so renderers
+// and the EventQueue cannot tell the difference. Needs no audio at all.
+export class SessionReplayer {
+  private session: RecordedSession;
+  private clock: () => number;
+  private loop: boolean;
+  private historySeconds: number;
+  private duration: number;
+  private playing = false;
+  private position = 0; // playback position while stopped (seconds)
+  private base = 0; // clock time at which lap 0 of the session started
+
+  constructor(session: RecordedSession, options: SessionReplayOptions = {}) {
+    if (session.frames.length === 0) {
+      throw new Error('Recorded session has no frames');
+    }
+
+    this.session = session;
+    this.clock = options.clock ?? defaultClock;
+    this.loop = options.loop ?? true;
+    this.historySeconds = options.historySeconds ?? 2;
+    // Loop length: one hop past the last frame keeps the spacing at the seam
+    const frames = session.frames;
+    const hop = frames.length > 1 ? frames[1].time - frames[0].time : SINGLE_FRAME_SECONDS;
+    this.duration = Math.max(session.duration, frames[frames.length - 1].time) + hop;
+  }
+
+  getSession(): RecordedSession {
+    return this.session;
+  }
+
+  getDuration(): number {
+    return this.duration;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  // Played through to the end without looping
+  isFinished(): boolean {
+    return !this.loop && this.getPosition() >= this.duration;
+  }
+
+  play(): void {
+    if (this.playing) return;
+
+    this.base = this.clock() - this.position;
+    this.playing = true;
+  }
+
+  pause(): void {
+    if (!this.playing) return;
+
+    this.position = this.getPosition();
+    this.playing = false;
+  }
+
+  seek(position: number): void {
+    this.position = Math.max(0, Math.min(position, this.duration));
+    this.base = this.clock() - this.position;
+  }
+
+  // Session time (seconds) currently being replayed
+  getPosition(): number {
+    if (!this.playing) return this.position;
+
+    const elapsed = this.clock() - this.base;
+    if (!this.loop) return Math.min(elapsed, this.duration);
+    return elapsed % this.duration;
+  }
+
+  // Latest frame at the replay position, on the replay clock. While paused
+  // the picture holds: the frame at the position, without onsets, stamped now.
+  getFrame(): AnalysisFrame {
+    const now = this.clock();
+    const frames = this.session.frames;
+
+    if (!this.playing) {
+      const frame = frames[Math.max(0, this.indexAtOrBefore(this.position))];
+      return { ...frame, time: now, onsets: [], sectionChange: undefined };
+    }
+
+    const lap = this.lapIndex(now);
+    const index = this.indexAtOrBefore(now - this.lapStart(lap));
+    if (index >= 0) {
+      return shiftFrame(frames[index], this.lapStart(lap));
+    }
+    // Before the first frame of a lap: the last frame of the previous one
+    return lap > 0
+      ? shiftFrame(frames[frames.length - 1], this.lapStart(lap - 1))
+      : shiftFrame(frames[0], this.lapStart(0));
+  }
+
+  // Frames with replay-clock times in (time, now], oldest first, across loop
+  // seams; never reaches back further than `historySeconds`
+  getFramesSince(time: number): AnalysisFrame[] {
+    if (!this.playing) return [];
+
+    const now = this.clock();
+    const from = Math.max(time, now - this.historySeconds);
+    const frames = this.session.frames;
+    const result: AnalysisFrame[] = [];
+
+    for (let lap = this.lapIndex(from); lap <= this.lapIndex(now); lap++) {
+      const start = this.lapStart(lap);
+      // `from - start` may round below a frame time that equals `from`, so
+      // start one early and compare on the replay clock
+      for (let index = Math.max(0, this.indexAtOrBefore(from - start)); index < frames.length; index++) {
+        const time = frames[index].time + start;
+        if (time > now) break;
+        if (time > from) result.push(shiftFrame(frames[index], start));
+      }
+    }
+    return result;
+  }
+
+  private lapIndex(time: number): number {
+    if (!this.loop) return 0;
+    return Math.max(0, Math.floor((time - this.base) / this.duration));
+  }
+
+  private lapStart(lap: number): number {
+    return this.base + lap * this.duration;
+  }
+
+  private indexAtOrBefore(time: number): number {
+    const frames = this.session.frames;
+    let low = 0;
+    let high = frames.length - 1;
+    let result = -1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (frames[mid].time <= time) {
+        result = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,109 @@
+import { FFT } from './FFT';
+
+export interface StereoImage {
+  balance: number; // -1 = left only, 0 = centre, 1 = right only
+  width: number; // 0 = mono, 0.5 = uncorrelated, 1 = out of phase
+  correlation: number; // phase correlation -1..1 (0 for silence)
+}
+
+const SILENCE_ENERGY = 1e-10;
+const SMOOTHING_TIME_CONSTANT = 0.1; // seconds
+
+const NEUTRAL: StereoImage = { balance: 0, width: 0, correlation: 0 };
+
+// Balance, width and correlation from the two channel energies and their
+// cross term; mid = (L+R)/2, side = (L-R)/2
+const imageFromEnergies = (left: number, right: number, cross: number): StereoImage => {
+  const total = left + right;
+  if (total < SILENCE_ENERGY) return { ...NEUTRAL };
+
+  const norm = Math.sqrt(left * right);
+  return {
+    balance: (right - left) / total,
+    width: Math.max(0, Math.min(1, (total - 2 * cross) / (2 * total))),
+    correlation: norm > 0 ? Math.max(-1, Math.min(1, cross / norm)) : 0
+  };
+};
+
+// Stereo image of the whole signal (time domain) and of frequency bands
+// (cross-spectrum of the two channel FFTs), lightly smoothed over time.
+export class StereoAnalyzer {
+  private fft: FFT | null = null;
+  private leftReal = new Float32Array(0);
+  private leftImag = new Float32Array(0);
+  private rightReal = new Float32Array(0);
+  private rightImag = new Float32Array(0);
+  private smoothed = new Map<string, StereoImage>();
+  private lastTime: number | null = null;
+
+  reset(): void {
+    this.smoothed.clear();
+    this.lastTime = null;
+  }
+
+  // `bands` maps ids to [lowHz, highHz); `binWidth` is sampleRate / window length
+  process(
+    left: Float32Array,
+    right: Float32Array,
+    bands: Record<string, [number, number]>,
+    binWidth: number,
+    time: number
+  ): { overall: StereoImage; bands: Record<string, StereoImage> } {
+    const dt = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime);
+    this.lastTime = time;
+
+    let leftEnergy = 0, rightEnergy = 0, cross = 0;
+    for (let i = 0; i < left.length; i++) {
+      leftEnergy += left[i] * left[i];
+      rightEnergy += right[i] * right[i];
+      cross += left[i] * right[i];
+    }
+    const overall = this.smooth('overall', imageFromEnergies(leftEnergy, rightEnergy, cross), dt);
+
+    this.computeSpectra(left, right);
+    const bandImages: Record<string, StereoImage> = {};
+    for (const id in bands) {
+      const [lowFreq, highFreq] = bands[id];
+      const startBin = Math.max(0, Math.floor(lowFreq / binWidth));
+      const endBin = Math.min(this.leftReal.length, Math.max(startBin + 1, Math.ceil(highFreq / binWidth)));
+
+      let bandLeft = 0, bandRight = 0, bandCross = 0;
+      for (let i = startBin; i < endBin; i++) {
+        bandLeft += this.leftReal[i] * this.leftReal[i] + this.leftImag[i] * this.leftImag[i];
+        bandRight += this.rightReal[i] * this.rightReal[i] + this.rightImag[i] * this.rightImag[i];
+        // Re(L · conj(R))
+        bandCross += this.leftReal[i] * this.rightReal[i] + this.leftImag[i] * this.rightImag[i];
+      }
+      bandImages[id] = this.smooth(id, imageFromEnergies(bandLeft, bandRight, bandCross), dt);
+    }
+
+    return { overall, bands: bandImages };
+  }
+
+  private computeSpectra(left: Float32Array, right: Float32Array): void {
+    const size = left.length;
+    if (!this.fft || this.fft.size !== size) {
+      this.fft = new FFT(size);
+      this.leftReal = new Float32Array(size / 2);
+      this.leftImag = new Float32Array(size / 2);
+      this.rightReal = new Float32Array(size / 2);
+      this.rightImag = new Float32Array(size / 2);
+    }
+    this.fft.complex(left, this.leftReal, this.leftImag);
+    this.fft.complex(right, this.rightReal, this.rightImag);
+  }
+
+  private smooth(id: string, image: StereoImage, dt: number): StereoImage {
+    const previous = this.smoothed.get(id);
+    if (!previous) {
+      this.smoothed.set(id, { ...image });
+      return image;
+    }
+
+    const k = 1 - Math.exp(-dt / SMOOTHING_TIME_CONSTANT);
+    previous.balance += (image.balance - previous.balance) * k;
+    previous.width += (image.width - previous.width) * k;
+    previous.correlation += (image.correlation - previous.correlation) * k;
+    return { ...previous };
+  }
+}
@@ -0,0 +1,244 @@
+export type TestSignalMode = 'click' | 'sweep' | 'whiteNoise' | 'pinkNoise' | 'drums';
+
+export interface TestSignalSettings {
+  mode: TestSignalMode;
+  bpm: number; // click / drums
+  level: number; // peak level (dBFS)
+  sweepSeconds: number; // seconds per 20 Hz to 20 kHz sweep
+  muted: boolean; // true = analysis only, nothing reaches the speakers
+}
+
+export const DEFAULT_TEST_SIGNAL: TestSignalSettings = {
+  mode: 'click',
+  bpm: 120,
+  level: -12,
+  sweepSeconds: 10,
+  muted: false
+};
+
+const SWEEP_START_HZ = 20;
+const SWEEP_END_HZ = 20000;
+const NOISE_SECONDS = 4;
+const NOISE_SEED = 0x5eed;
+const FADE_SECONDS = 0.005; // sweep edges, avoids a click at the loop point
+
+// Small seeded PRNG (mulberry32) so noise and drums render identically every time
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Adds a decaying sine burst at `start` (seconds)
+const addTone = (
+  out: Float32Array,
+  sampleRate: number,
+  start: number,
+  frequency: (t: number) => number,
+  decay: number,
+  gain: number
+) => {
+  const first = Math.round(start * sampleRate);
+  const length = Math.min(out.length - first, Math.ceil(decay * 6 * sampleRate));
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    phase += (2 * Math.PI * frequency(t)) / sampleRate;
+    out[first + i] += Math.sin(phase) * Math.exp(-t / decay) * gain;
+  }
+};
+
+// Adds a decaying noise burst; `highpass` uses the first difference for hats
+const addNoise = (
+  out: Float32Array,
+  sampleRate: number,
+  start: number,
+  decay: number,
+  gain: number,
+  random: () => number,
+  highpass = false
+) => {
+  const first = Math.round(start * sampleRate);
+  const length = Math.min(out.length - first, Math.ceil(decay * 6 * sampleRate));
+  let previous = 0;
+  for (let i = 0; i < length; i++) {
+    const white = random() * 2 - 1;
+    const sample = highpass ? (white - previous) / 2 : white;
+    previous = white;
+    out[first + i] += sample * Math.exp(-i / sampleRate / decay) * gain;
+  }
+};
+
+const renderClick = (settings: TestSignalSettings, sampleRate: number): Float32Array => {
+  const beat = 60 / settings.bpm;
+  const out = new Float32Array(Math.round(beat * 4 * sampleRate));
+  for (let i = 0; i < 4; i++) {
+    // Accented downbeat
+    addTone(out, sampleRate, i * beat, () => (i === 0 ? 1500 : 1000), 0.008, 1);
+  }
+  return out;
+};
+
+// One bar of 16ths: kick on 1 and 3 (plus the "and" of 3), snare on 2 and 4,
+// closed hats on every 8th
+const renderDrums = (settings: TestSignalSettings, sampleRate: number): Float32Array => {
+  const step = 60 / settings.bpm / 4;
+  const out = new Float32Array(Math.round(step * 16 * sampleRate));
+  const random = createRandom(NOISE_SEED);
+  for (let i = 0; i < 16; i++) {
+    const time = i * step;
+    if (i === 0 || i === 8 || i === 10) {
+      addTone(out, sampleRate, time, t => 50 + 100 * Math.exp(-t / 0.03), 0.12, 1);
+    }
+    if (i === 4 || i === 12) {
+      addTone(out, sampleRate, time, () => 180, 0.05, 0.4);
+      addNoise(out, sampleRate, time, 0.05, 0.6, random);
+    }
+    if (i % 2 === 0) {
+      addNoise(out, sampleRate, time, 0.012, 0.4, random, true);
+    }
+  }
+  return out;
+};
+
+// Exponential (log-frequency) sine sweep
+const renderSweep = (settings: TestSignalSettings, sampleRate: number): Float32Array => {
+  const length = Math.round(settings.sweepSeconds * sampleRate);
+  const out = new Float32Array(length);
+  const ratio = Math.log(SWEEP_END_HZ / SWEEP_START_HZ);
+  const scale = (2 * Math.PI * SWEEP_START_HZ * settings.sweepSeconds) / ratio;
+  const fade = FADE_SECONDS * sampleRate;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.min(1, i / fade, (length - 1 - i) / fade);
+    out[i] = Math.sin(scale * (Math.exp((t / settings.sweepSeconds) * ratio) - 1)) * envelope;
+  }
+  return out;
+};
+
+// White noise, or pink via Paul Kellet's refined filter (-3 dB/octave)
+const renderNoise = (pink: boolean, sampleRate: number): Float32Array => {
+  const out = new Float32Array(Math.round(NOISE_SECONDS * sampleRate));
+  const random = createRandom(NOISE_SEED);
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < out.length; i++) {
+    const white = random() * 2 - 1;
+    if (!pink) {
+      out[i] = white;
+      continue;
+    }
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.969 * b2 + white * 0.153852;
+    b3 = 0.8665 * b3 + white * 0.3104856;
+    b4 = 0.55 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.016898;
+    out[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+    b6 = white * 0.115926;
+  }
+  return out;
+};
+
+// One loop of the test signal, normalised to `level` dBFS peak. Rendering is
+// deterministic, so the same settings always give the same samples.
+export const renderTestSignal = (settings: TestSignalSettings, sampleRate: number): Float32Array => {
+  let samples: Float32Array;
+  switch (settings.mode) {
+    case 'click':
+      samples = renderClick(settings, sampleRate);
+      break;
+    case 'drums':
+      samples = renderDrums(settings, sampleRate);
+      break;
+    case 'sweep':
+      samples = renderSweep(settings, sampleRate);
+      break;
+    case 'whiteNoise':
+    case 'pinkNoise':
+      samples = renderNoise(settings.mode === 'pinkNoise', sampleRate);
+      break;
+  }
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const gain = peak > 0 ? Math.pow(10, settings.level / 20) / peak : 0;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] *= gain;
+  }
+  return samples;
+};
+
+// Loops a rendered test signal into `output`. Works without any input device,
+// so analysis and renderers can be tuned against a known, repeatable signal.
+export class TestSignalGenerator {
+  readonly output: GainNode;
+  private context: AudioContext;
+  private settings: TestSignalSettings;
+  private source: AudioBufferSourceNode | null = null;
+
+  constructor(context: AudioContext, settings: TestSignalSettings = DEFAULT_TEST_SIGNAL) {
+    this.context = context;
+    this.settings = { ...settings };
+    this.output = context.createGain();
+  }
+
+  getSettings(): TestSignalSettings {
+    return { ...this.settings };
+  }
+
+  isRunning(): boolean {
+    return this.source !== null;
+  }
+
+  start(): void {
+    this.stop();
+
+    const samples = renderTestSignal(this.settings, this.context.sampleRate);
+    const buffer = this.context.createBuffer(1, samples.length, this.context.sampleRate);
+    buffer.copyToChannel(samples, 0);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(this.output);
+    source.start();
+    this.source = source;
+  }
+
+  // Re-renders and restarts from the top when the signal itself changes
+  update(updates: Partial<TestSignalSettings>): void {
+    const previous = this.settings;
+    this.settings = { ...previous, ...updates };
+
+    const changed = (['mode', 'bpm', 'level', 'sweepSeconds'] as const).some(
+      key => this.settings[key] !== previous[key]
+    );
+    if (changed && this.source) {
+      this.start();
+    }
+  }
+
+  stop(): void {
+    if (!this.source) return;
+
+    try {
+      this.source.stop();
+    } catch (error) {
+      console.log('Test signal already stopped or error:', error);
+    }
+    this.source.disconnect();
+    this.source = null;
+  }
+
+  dispose(): void {
+    this.stop();
+    this.output.disconnect();
+  }
+}
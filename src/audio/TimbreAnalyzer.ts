@@ -0,0 +1,193 @@
+export interface TimbreFeatures {
+  centroid: number; // spectral centroid / Nyquist [0..1]
+  spread: number; // spread around the centroid / Nyquist [0..1]
+  flatness: number; // 0 = pure tone, 1 = white noise
+  rolloff: number; // 85% energy point / Nyquist [0..1]
+  flux: number; // change of the normalised spectrum [0..1]
+  zcr: number; // zero-crossing rate [0..1]
+  mfcc: number[]; // c0 = log energy
+}
+
+export const MFCC_COUNT = 8;
+const MEL_FILTER_COUNT = 26;
+const MEL_MAX_FREQ = 8000;
+const ROLLOFF_RATIO = 0.85;
+const EPSILON = 1e-12;
+
+// 0..1 view of an MFCC vector for modulation: c0 as mean mel level over a
+// 100 dB range, the shape coefficients squashed around 0.5
+export const normalizeMfcc = (mfcc: number[]): number[] =>
+  mfcc.map((coefficient, i) => i === 0
+    ? Math.max(0, Math.min(1, coefficient / Math.sqrt(MEL_FILTER_COUNT) / 100 + 1))
+    : 0.5 + 0.5 * Math.tanh(coefficient / 50));
+
+const hzToMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number): number => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// Spectral-shape and texture descriptors for one frame, from linear FFT
+// magnitudes and the matching time-domain block.
+export class TimbreAnalyzer {
+  private sampleRate: number;
+  private bufferLength = 0;
+  private melFilters: { start: number; weights: Float32Array }[] = [];
+  private dctTable = new Float32Array(0);
+  private melEnergies = new Float32Array(MEL_FILTER_COUNT);
+  private previousSpectrum: Float32Array | null = null;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  reset(): void {
+    this.previousSpectrum = null;
+  }
+
+  process(magnitudes: Float32Array, timeData: Float32Array): TimbreFeatures {
+    if (magnitudes.length !== this.bufferLength) {
+      this.buildTables(magnitudes.length);
+    }
+
+    const n = magnitudes.length;
+    const nyquist = this.sampleRate / 2;
+    const binWidth = nyquist / n;
+
+    let magnitudeSum = 0;
+    let powerSum = 0;
+    let weightedSum = 0;
+    let logPowerSum = 0;
+    for (let i = 0; i < n; i++) {
+      const magnitude = magnitudes[i];
+      const power = magnitude * magnitude;
+      magnitudeSum += magnitude;
+      powerSum += power;
+      weightedSum += i * binWidth * magnitude;
+      logPowerSum += Math.log(power + EPSILON);
+    }
+
+    const silent = powerSum < EPSILON * n;
+    const centroidHz = magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+
+    let spreadSum = 0;
+    let rolloffHz = 0;
+    let cumulative = 0;
+    const rolloffTarget = ROLLOFF_RATIO * powerSum;
+    for (let i = 0; i < n; i++) {
+      const freq = i * binWidth;
+      spreadSum += (freq - centroidHz) * (freq - centroidHz) * magnitudes[i];
+      if (cumulative < rolloffTarget) {
+        cumulative += magnitudes[i] * magnitudes[i];
+        rolloffHz = freq;
+      }
+    }
+    const spreadHz = magnitudeSum > 0 ? Math.sqrt(spreadSum / magnitudeSum) : 0;
+
+    // Geometric over arithmetic mean of the power spectrum
+    const flatness = silent ? 0 : Math.exp(logPowerSum / n) / (powerSum / n + EPSILON);
+
+    return {
+      centroid: centroidHz / nyquist,
+      spread: spreadHz / nyquist,
+      flatness: Math.min(1, flatness),
+      rolloff: rolloffHz / nyquist,
+      flux: this.calculateFlux(magnitudes, magnitudeSum),
+      zcr: this.calculateZeroCrossingRate(timeData),
+      mfcc: this.calculateMFCC(magnitudes)
+    };
+  }
+
+  // Half-wave rectified difference of L1-normalized spectra, so loudness
+  // changes alone do not count
+  private calculateFlux(magnitudes: Float32Array, magnitudeSum: number): number {
+    const n = magnitudes.length;
+    const hasPrevious = this.previousSpectrum !== null && this.previousSpectrum.length === n;
+    if (!hasPrevious) {
+      this.previousSpectrum = new Float32Array(n);
+    }
+    const previous = this.previousSpectrum!;
+
+    let flux = 0;
+    for (let i = 0; i < n; i++) {
+      const normalized = magnitudeSum > 0 ? magnitudes[i] / magnitudeSum : 0;
+      if (hasPrevious && normalized > previous[i]) {
+        flux += normalized - previous[i];
+      }
+      previous[i] = normalized;
+    }
+
+    return Math.min(1, flux);
+  }
+
+  private calculateZeroCrossingRate(timeData: Float32Array): number {
+    let crossings = 0;
+    for (let i = 1; i < timeData.length; i++) {
+      if ((timeData[i - 1] >= 0) !== (timeData[i] >= 0)) {
+        crossings++;
+      }
+    }
+    return timeData.length > 1 ? crossings / (timeData.length - 1) : 0;
+  }
+
+  // Triangular mel filterbank, log (dB) energies, DCT-II
+  private calculateMFCC(magnitudes: Float32Array): number[] {
+    for (let m = 0; m < MEL_FILTER_COUNT; m++) {
+      const { start, weights } = this.melFilters[m];
+      let energy = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const magnitude = magnitudes[start + k];
+        energy += weights[k] * magnitude * magnitude;
+      }
+      this.melEnergies[m] = 10 * Math.log10(energy + EPSILON);
+    }
+
+    const mfcc = new Array(MFCC_COUNT).fill(0);
+    for (let c = 0; c < MFCC_COUNT; c++) {
+      let sum = 0;
+      for (let m = 0; m < MEL_FILTER_COUNT; m++) {
+        sum += this.melEnergies[m] * this.dctTable[c * MEL_FILTER_COUNT + m];
+      }
+      mfcc[c] = sum;
+    }
+    return mfcc;
+  }
+
+  private buildTables(bufferLength: number): void {
+    this.bufferLength = bufferLength;
+    this.previousSpectrum = null;
+
+    const binWidth = this.sampleRate / 2 / bufferLength;
+    const maxMel = hzToMel(Math.min(MEL_MAX_FREQ, this.sampleRate / 2));
+    const edges: number[] = [];
+    for (let i = 0; i < MEL_FILTER_COUNT + 2; i++) {
+      edges.push(melToHz((maxMel * i) / (MEL_FILTER_COUNT + 1)));
+    }
+
+    this.melFilters = [];
+    for (let m = 0; m < MEL_FILTER_COUNT; m++) {
+      const [left, centre, right] = [edges[m], edges[m + 1], edges[m + 2]];
+      const start = Math.floor(left / binWidth);
+      const end = Math.min(bufferLength - 1, Math.ceil(right / binWidth));
+      const weights = new Float32Array(Math.max(0, end - start + 1));
+      for (let i = start; i <= end; i++) {
+        const freq = i * binWidth;
+        const weight = freq <= centre
+          ? (freq - left) / (centre - left)
+          : (right - freq) / (right - centre);
+        weights[i - start] = Math.max(0, weight);
+      }
+      // Filters narrower than a bin still get the bin they sit in
+      if (weights.length > 0 && weights.every(weight => weight === 0)) {
+        weights[Math.min(weights.length - 1, Math.round(centre / binWidth) - start)] = 1;
+      }
+      this.melFilters.push({ start, weights });
+    }
+
+    // Orthonormal DCT-II basis
+    this.dctTable = new Float32Array(MFCC_COUNT * MEL_FILTER_COUNT);
+    for (let c = 0; c < MFCC_COUNT; c++) {
+      const scale = Math.sqrt((c === 0 ? 1 : 2) / MEL_FILTER_COUNT);
+      for (let m = 0; m < MEL_FILTER_COUNT; m++) {
+        this.dctTable[c * MEL_FILTER_COUNT + m] = scale * Math.cos((Math.PI * c * (m + 0.5)) / MEL_FILTER_COUNT);
+      }
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { OfflineAnalyzer, parseTrackAnalysis, serializeTrackAnalysis } from '../OfflineAnalyzer';
+import type { TrackAnalysis } from '../OfflineAnalyzer';
+import { SAMPLE_RATE, clickTimes, clickTrack, noteHz, tones } from './signals';
+
+// Headless analysis core tests: synthetic PCM through the same FrameAnalyzer
+// the worklet runs. Ground truth is asserted within tolerance; everything else
+// is compared against golden/synthetic.json. After an intentional change to
+// the analysis, regenerate it with `UPDATE_GOLDEN=1 npm test` and review the diff.
+
+const GOLDEN_FILE = new URL('./golden/synthetic.json', import.meta.url);
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === '1';
+
+// Onsets are reported on the hop after the transient
+const ONSET_TOLERANCE = 0.025; // seconds
+const BPM_TOLERANCE = 1;
+
+const analyze = (samples: Float32Array): Promise<TrackAnalysis> =>
+  new OfflineAnalyzer().analyzeSamples(samples, SAMPLE_RATE);
+
+// Settled state: the last frame, once smoothing and estimators have converged
+const lastFrame = (analysis: TrackAnalysis) => analysis.frames[analysis.frames.length - 1];
+
+const fullOnsetTimes = (analysis: TrackAnalysis): number[] =>
+  analysis.onsets.filter(onset => onset.band === 'full').map(onset => onset.time);
+
+// Compact, rounded summary of a result for the golden file
+const summarize = (analysis: TrackAnalysis) => {
+  const frame = lastFrame(analysis);
+  const round = (value: number | undefined) => (value === undefined ? null : Number(value.toFixed(4)));
+  return {
+    rms: round(frame.rms),
+    low: round(frame.low),
+    mid: round(frame.mid),
+    high: round(frame.high),
+    centroid: round(frame.centroid),
+    flatness: round(frame.flatness),
+    pitchHz: round(frame.pitchHz),
+    key: frame.key ?? null,
+    keyMode: frame.keyMode ?? null,
+    bpm: round(frame.bpm),
+    onsets: analysis.onsets.length,
+    gridBpm: round(analysis.beatGrid.bpm)
+  };
+};
+
+type Summary = ReturnType<typeof summarize>;
+
+const golden: Record<string, Summary> = existsSync(GOLDEN_FILE)
+  ? JSON.parse(readFileSync(GOLDEN_FILE, 'utf8'))
+  : {};
+const updated: Record<string, Summary> = {};
+
+const expectGolden = (name: string, analysis: TrackAnalysis) => {
+  const summary = summarize(analysis);
+  updated[name] = summary;
+  if (UPDATE_GOLDEN) {
+    writeFileSync(GOLDEN_FILE, JSON.stringify({ ...golden, ...updated }, null, 2) + '\n');
+    return;
+  }
+
+  const expected = golden[name];
+  expect(expected, `no golden entry for "${name}"; run with UPDATE_GOLDEN=1`).toBeDefined();
+  for (const [key, value] of Object.entries(summary)) {
+    const reference = expected[key as keyof Summary];
+    if (typeof value === 'number' && typeof reference === 'number') {
+      expect(value, key).toBeCloseTo(reference, 3);
+    } else {
+      expect(value, key).toEqual(reference);
+    }
+  }
+};
+
+describe('click track', () => {
+  for (const bpm of [100, 120, 128]) {
+    it(`finds every click and ${bpm} BPM`, async () => {
+      const seconds = 12;
+      const analysis = await analyze(clickTrack(bpm, seconds));
+      const onsets = fullOnsetTimes(analysis);
+      const clicks = clickTimes(bpm, seconds);
+
+      // Every click after the first (no flux history yet) is detected...
+      for (const click of clicks.slice(1)) {
+        expect(onsets.some(time => time >= click && time - click <= ONSET_TOLERANCE), `click at ${click.toFixed(3)}s`).toBe(true);
+      }
+      // ...and nothing else is
+      for (const time of onsets) {
+        expect(clicks.some(click => time >= click && time - click <= ONSET_TOLERANCE), `onset at ${time.toFixed(3)}s`).toBe(true);
+      }
+
+      expect(lastFrame(analysis).bpm).toBeGreaterThan(bpm - BPM_TOLERANCE);
+      expect(lastFrame(analysis).bpm).toBeLessThan(bpm + BPM_TOLERANCE);
+      expect(Math.abs(analysis.beatGrid.bpm - bpm)).toBeLessThan(BPM_TOLERANCE);
+      expectGolden(`clicks${bpm}`, analysis);
+    });
+  }
+});
+
+describe('pure tones', () => {
+  for (const midi of [45, 57, 69, 76]) {
+    it(`tracks the pitch of MIDI ${midi}`, async () => {
+      const analysis = await analyze(tones([noteHz(midi)], 2));
+      const frame = lastFrame(analysis);
+
+      expect(frame.pitch).toBe(midi);
+      expect(Math.abs(frame.pitchCents ?? Infinity)).toBeLessThan(10);
+      expectGolden(`tone${midi}`, analysis);
+    });
+  }
+
+  it('raises the centroid with the pitch', async () => {
+    const centroids: number[] = [];
+    for (const midi of [45, 57, 69, 76]) {
+      centroids.push(lastFrame(await analyze(tones([noteHz(midi)], 1))).centroid);
+    }
+    for (let i = 1; i < centroids.length; i++) {
+      expect(centroids[i]).toBeGreaterThan(centroids[i - 1]);
+    }
+  });
+
+  it('puts band energy where the tone is', async () => {
+    const low = lastFrame(await analyze(tones([80], 2)));
+    const high = lastFrame(await analyze(tones([6000], 2)));
+
+    expect(low.low).toBeGreaterThan(0.9);
+    expect(low.low).toBeGreaterThan(Math.max(low.mid, low.high) + 0.5);
+    expect(high.high).toBeGreaterThan(0.9);
+    expect(high.high).toBeGreaterThan(Math.max(high.low, high.mid) + 0.5);
+  });
+});
+
+describe('chords', () => {
+  it('estimates C major from a sustained C major triad', async () => {
+    const analysis = await analyze(tones([60, 64, 67].map(noteHz), 6));
+    const frame = lastFrame(analysis);
+
+    expect(frame.key).toBe(0);
+    expect(frame.keyMode).toBe('major');
+    // Strongest pitch classes are the chord tones C, E and G
+    const ranked = (frame.chroma ?? []).map((value, pitchClass) => ({ value, pitchClass }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, 3)
+      .map(({ pitchClass }) => pitchClass);
+    expect(ranked.sort((a, b) => a - b)).toEqual([0, 4, 7]);
+    expectGolden('chordCmaj', analysis);
+  });
+
+  it('estimates A minor from a sustained A minor triad', async () => {
+    const analysis = await analyze(tones([57, 60, 64].map(noteHz), 6));
+    const frame = lastFrame(analysis);
+
+    expect(frame.key).toBe(9);
+    expect(frame.keyMode).toBe('minor');
+    expectGolden('chordAmin', analysis);
+  });
+});
+
+describe('track analysis cache', () => {
+  it('keeps times past 100 s to 0.1 ms through JSON', async () => {
+    // A click track as if it started 3 minutes into the file
+    const OFFSET = 180.123456;
+    const analysis = await analyze(clickTrack(120, 4));
+    const shifted: TrackAnalysis = {
+      ...analysis,
+      duration: analysis.duration + OFFSET,
+      frames: analysis.frames.map(frame => ({
+        ...frame,
+        time: frame.time + OFFSET,
+        onsets: frame.onsets.map(onset => ({ ...onset, time: onset.time + OFFSET }))
+      })),
+      onsets: analysis.onsets.map(onset => ({ ...onset, time: onset.time + OFFSET })),
+      beatGrid: {
+        ...analysis.beatGrid,
+        offset: analysis.beatGrid.offset + OFFSET,
+        beats: analysis.beatGrid.beats.map(beat => beat + OFFSET)
+      }
+    };
+    const parsed = parseTrackAnalysis(serializeTrackAnalysis(shifted));
+
+    const times = (result: TrackAnalysis) => [
+      result.duration,
+      result.beatGrid.offset,
+      ...result.frames.flatMap(frame => [frame.time, ...frame.onsets.map(onset => onset.time)]),
+      ...result.onsets.map(onset => onset.time),
+      ...result.beatGrid.beats
+    ];
+    const expected = times(shifted);
+    const actual = times(parsed);
+    expect(actual).toHaveLength(expected.length);
+    actual.forEach((time, i) => expect(Math.abs(time - expected[i])).toBeLessThanOrEqual(0.00005 + 1e-9));
+    // Everything else is still compact
+    expect(parsed.frames[10].rms).toBe(Number(shifted.frames[10].rms.toPrecision(5)));
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { CROSSOVER_MIN_RATIO, CROSSOVER_RANGE, DEFAULT_CROSSOVER, clampCrossover } from '../BandAnalyzer';
+import { FrameAnalyzer } from '../FrameAnalyzer';
+import { SAMPLE_RATE } from './signals';
+
+describe('clampCrossover', () => {
+  it('keeps an empty or inverted Mid band away from the analysis', () => {
+    const analyzer = new FrameAnalyzer(SAMPLE_RATE);
+    for (const crossover of [
+      { lowMid: 800, midHigh: 800 },
+      { lowMid: 2000, midHigh: 100 },
+      { lowMid: NaN, midHigh: Infinity }
+    ]) {
+      const clamped = clampCrossover(crossover);
+      expect(clamped.midHigh).toBeGreaterThanOrEqual(clamped.lowMid * CROSSOVER_MIN_RATIO);
+      expect(() => analyzer.setCrossover(clamped)).not.toThrow();
+    }
+  });
+
+  it('leaves valid settings alone', () => {
+    expect(clampCrossover(DEFAULT_CROSSOVER)).toEqual(DEFAULT_CROSSOVER);
+    // The slider ranges cannot produce an invalid pair
+    const edge = { lowMid: CROSSOVER_RANGE.lowMid.max, midHigh: CROSSOVER_RANGE.midHigh.min };
+    expect(clampCrossover(edge)).toEqual(edge);
+  });
+});
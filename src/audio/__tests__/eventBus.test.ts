@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { EventBus } from '../EventBus';
+import type { BusEvent } from '../EventBus';
+import { OfflineAnalyzer } from '../OfflineAnalyzer';
+import type { AnalysisFrame } from '../AnalysisFrame';
+import { SAMPLE_RATE, clickTrack } from './signals';
+
+const HOP = 0.01; // seconds
+
+// Minimal frame: only the fields the bus reads
+const frame = (time: number, fields: Partial<AnalysisFrame> = {}): AnalysisFrame => ({
+  time,
+  rms: 0.1,
+  onsets: [],
+  beatPhase: 0.5,
+  beat: 0,
+  bar: 0,
+  tempoConfidence: 0,
+  ...fields
+} as AnalysisFrame);
+
+const collect = (bus: EventBus): BusEvent[] => {
+  const events: BusEvent[] = [];
+  bus.subscribe({}, event => events.push(event));
+  return events;
+};
+
+describe('EventBus', () => {
+  it('filters subscriptions by kind, band and energy', () => {
+    const bus = new EventBus();
+    const lows: number[] = [];
+    const strong: BusEvent[] = [];
+    bus.subscribe({ kind: 'onset', band: 'low' }, event => lows.push(event.energy));
+    bus.subscribe({ minEnergy: 0.5 }, event => strong.push(event));
+
+    bus.publishFrame(frame(1, {
+      onsets: [
+        { band: 'low', energy: 0.3, time: 0.99 },
+        { band: 'high', energy: 0.8, time: 1 }
+      ]
+    }));
+
+    expect(lows).toEqual([0.3]);
+    expect(strong.map(event => event.band)).toEqual(['high']);
+  });
+
+  it('stops delivering after unsubscribing', () => {
+    const bus = new EventBus();
+    const events: BusEvent[] = [];
+    const unsubscribe = bus.on('onset', event => events.push(event));
+    unsubscribe();
+    bus.publishFrame(frame(1, { onsets: [{ band: 'full', energy: 1, time: 1 }] }));
+    expect(events).toEqual([]);
+  });
+
+  it('turns held pitches into notes', () => {
+    const bus = new EventBus();
+    const events = collect(bus);
+    const pitches = [
+      ...Array(10).fill(60),
+      ...Array(10).fill(64),
+      ...Array(10).fill(undefined)
+    ];
+    pitches.forEach((pitch, i) => bus.publishFrame(frame(i * HOP, { pitch, pitchClarity: pitch ? 0.9 : 0 })));
+
+    expect(events.map(event => event.kind)).toEqual([
+      'pitchChange', 'noteOn', 'noteOff', 'pitchChange', 'noteOn', 'noteOff'
+    ]);
+    const [first, , firstOff, change, , lastOff] = events;
+    expect(first.t).toBe(0);
+    expect(change).toMatchObject({ pitch: 64, previousPitch: 60 });
+    expect(firstOff).toMatchObject({ pitch: 60 });
+    expect(firstOff.t).toBeCloseTo(10 * HOP, 9);
+    expect(lastOff).toMatchObject({ pitch: 64, duration: expect.closeTo(10 * HOP, 9) });
+  });
+
+  it('reports silence after the hold time, and its length when sound returns', () => {
+    const bus = new EventBus({ silenceHold: 0.2 });
+    const events = collect(bus);
+    for (let i = 0; i < 100; i++) {
+      const quiet = i >= 20 && i < 70;
+      bus.publishFrame(frame(i * HOP, { rms: quiet ? 0.0001 : 0.1 }));
+    }
+
+    expect(events.map(event => event.kind)).toEqual(['silenceStart', 'silenceEnd']);
+    expect(events[0].t).toBeCloseTo(0.2, 9);
+    expect(events[1]).toMatchObject({ duration: expect.closeTo(0.5, 9) });
+  });
+
+  it('ticks beats and downbeats from a click track, the same way every time', async () => {
+    const analysis = await new OfflineAnalyzer().analyzeSamples(clickTrack(120, 8), SAMPLE_RATE);
+    const run = () => {
+      const bus = new EventBus();
+      const events = collect(bus);
+      analysis.frames.forEach(analysisFrame => bus.publishFrame(analysisFrame));
+      return events;
+    };
+
+    const events = run();
+    const beats = events.filter(event => event.kind === 'beat');
+    const downbeats = events.filter(event => event.kind === 'downbeat');
+    // One beat per half second, a downbeat every four
+    expect(Math.abs(beats.length - 16)).toBeLessThanOrEqual(1);
+    expect(Math.abs(downbeats.length - 4)).toBeLessThanOrEqual(1);
+    for (let i = 1; i < beats.length; i++) {
+      expect(beats[i].t).toBeGreaterThan(beats[i - 1].t);
+    }
+
+    expect(run()).toEqual(events);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { EventQueue } from '../EventQueue';
+import type { AudioEvent } from '../AnalysisFrame';
+
+const onset = (t: number, band: AudioEvent['band'] = 'low'): AudioEvent => ({ t, band, energy: 0.5 });
+
+// 120 BPM with a beat at 10 s: beats every 0.5 s, 16ths every 0.125 s
+const createQueue = (division: number, swing = 0) => {
+  const queue = new EventQueue();
+  queue.setBeatClock(10, 0, 120);
+  queue.setQuantize({ enabled: true, division, swing, lookAhead: 0.03 });
+  return queue;
+};
+
+describe('EventQueue quantizer', () => {
+  it('holds events until the next 1/16 slot', () => {
+    const queue = createQueue(4);
+    queue.push(onset(10.3));
+
+    expect(queue.popSince(10.29, 10.37)).toEqual([]);
+    const [event] = queue.popSince(10.37, 10.4);
+    expect(event.t).toBeCloseTo(10.375, 9);
+  });
+
+  it('releases events within the look-ahead of a slot at once', () => {
+    const queue = createQueue(4);
+    queue.push(onset(10.27));
+
+    const [event] = queue.popSince(10.26, 10.28);
+    expect(event.t).toBeCloseTo(10.27, 9);
+  });
+
+  it('delays off-beat 1/8 slots by the swing amount', () => {
+    const queue = createQueue(2, 0.5);
+    queue.push(onset(10.1));
+    queue.push(onset(10.4, 'high'));
+
+    const events = queue.popSince(10, 11);
+    // Off-beat 8th at 0.25 s + half the swing range of a slot (0.0625 s)
+    expect(events.map(event => event.t)).toEqual([10.3125, 10.5]);
+  });
+
+  it('merges events that land on the same slot', () => {
+    const queue = createQueue(4);
+    queue.push(onset(10.3));
+    queue.push(onset(10.33, 'high'));
+
+    const events = queue.popSince(10, 11);
+    expect(events).toHaveLength(1);
+    expect(events[0].energy).toBe(1);
+  });
+
+  it('passes events through without a tempo or for section changes', () => {
+    const queue = new EventQueue();
+    queue.setQuantize({ enabled: true });
+    queue.push(onset(10.3));
+    expect(queue.popSince(10.29, 10.31)).toHaveLength(1);
+
+    queue.setBeatClock(10, 0, 120);
+    queue.push({ t: 10.3, kind: 'section', band: 'full', energy: 1, section: 'drop' });
+    expect(queue.popSince(10.29, 10.31)).toHaveLength(1);
+  });
+});
+
+describe('EventQueue memory', () => {
+  it('halves each band on its own half-life, after the events are consumed', () => {
+    const queue = new EventQueue();
+    queue.setMemory('low', { halfLife: 2, weight: 1 });
+    queue.setMemory('high', { halfLife: 0.5, weight: 1 });
+    queue.push(onset(10, 'low'));
+    queue.push(onset(10, 'high'));
+    queue.popSince(10, 10.1);
+
+    const level = (value: number) => -Math.log(1 - value);
+    expect(level(queue.getMemory('low', 10))).toBeCloseTo(0.5, 9);
+    expect(level(queue.getMemory('low', 12))).toBeCloseTo(0.25, 9);
+    expect(level(queue.getMemory('high', 11))).toBeCloseTo(0.125, 9);
+    expect(queue.getMemory('mid', 12)).toBe(0);
+  });
+
+  it('scales the memory half-lives with the queue half-life', () => {
+    const queue = new EventQueue(3);
+    expect(queue.getMemorySettings('full').halfLife).toBe(3);
+    expect(queue.getMemorySettings('low').halfLife).toBe(4);
+
+    queue.setHalfLife(0.75);
+    expect(queue.getMemorySettings('high').halfLife).toBeCloseTo(0.4, 9);
+    expect(queue.getMemorySettings('high').weight).toBe(0.6);
+  });
+
+  it('weights events by band and keeps sections apart', () => {
+    const queue = new EventQueue();
+    queue.setMemory('mid', { weight: 0.5 });
+    queue.push(onset(10, 'mid'));
+    queue.push({ t: 10, kind: 'section', band: 'full', energy: 1, section: 'drop' });
+
+    const memories = queue.getMemories(10);
+    expect(-Math.log(1 - memories.mid)).toBeCloseTo(0.25, 9);
+    expect(memories.full).toBe(0);
+    expect(memories.section).toBeGreaterThan(0);
+    expect(queue.getMemoryValue(10)).toBeCloseTo(memories.mid, 9);
+  });
+
+  it('builds up under a steady beat without reaching 1', () => {
+    const queue = new EventQueue();
+    for (let i = 0; i < 64; i++) {
+      queue.push(onset(10 + i * 0.5, 'low'));
+    }
+    const memory = queue.getMemory('low', 41.5);
+    expect(memory).toBeGreaterThan(0.9);
+    expect(memory).toBeLessThan(1);
+  });
+});
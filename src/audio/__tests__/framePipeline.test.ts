@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { FramePipeline, silentFrame } from '../FramePipeline';
+import type { FrameContext, FrameRenderer, FrameSource } from '../FramePipeline';
+import { ModMatrix } from '../ModMatrix';
+import type { AnalysisFrame } from '../AnalysisFrame';
+
+// Analysis frames every 10 ms; `now` is how far the analysis has got
+const createSource = () => {
+  let now = 0;
+  const frames: AnalysisFrame[] = [];
+  const source: FrameSource = {
+    getAnalysisFramesSince: time => frames.filter(frame => frame.time > time && frame.time <= now),
+    getAnalysisFrame: () => frames.filter(frame => frame.time <= now).pop() ?? silentFrame(0)
+  };
+  return {
+    source,
+    advance: (seconds: number, onsetAt?: number) => {
+      const end = now + seconds;
+      for (let t = Math.round(now * 100) + 1; t <= Math.round(end * 100); t++) {
+        const time = t / 100;
+        const onset = onsetAt !== undefined && Math.abs(time - onsetAt) < 1e-9;
+        frames.push({
+          ...silentFrame(time),
+          rms: 0.1,
+          onsets: onset ? [{ band: 'low', energy: 0.8, time }] : []
+        });
+      }
+      now = end;
+    }
+  };
+};
+
+const createPipeline = () => {
+  let now = 5;
+  const pipeline = new FramePipeline({ modMatrix: new ModMatrix(), clock: () => now });
+  return {
+    pipeline,
+    wait: (seconds: number) => {
+      now += seconds;
+    }
+  };
+};
+
+describe('FramePipeline', () => {
+  it('measures the real time between animation frames', () => {
+    const { pipeline, wait } = createPipeline();
+    expect(pipeline.step(null).deltaTime).toBeCloseTo(1 / 60, 9);
+    wait(0.033);
+    expect(pipeline.step(null).deltaTime).toBeCloseTo(0.033, 9);
+    // A hidden tab does not fast-forward the visuals
+    wait(3);
+    expect(pipeline.step(null).deltaTime).toBe(0.1);
+  });
+
+  it('draws a silent frame before any audio', () => {
+    const { pipeline } = createPipeline();
+    const context = pipeline.step(null);
+    expect(context.hasAudio).toBe(false);
+    expect(context.frame.rms).toBe(0);
+    expect(context.events).toEqual([]);
+  });
+
+  it('delivers onsets between animation frames once, and remembers them', () => {
+    const { pipeline } = createPipeline();
+    const { source, advance } = createSource();
+
+    advance(0.05, 0.03);
+    const first = pipeline.step(source);
+    expect(first.frames).toHaveLength(5);
+    expect(first.events).toHaveLength(1);
+    expect(first.events[0].band).toBe('low');
+
+    advance(0.05);
+    const second = pipeline.step(source);
+    expect(second.frames).toHaveLength(5);
+    expect(second.events).toEqual([]);
+    expect(second.memory.low).toBeGreaterThan(0);
+    expect(second.memory.low).toBeLessThan(first.memory.low);
+    expect(second.modMatrix.getSources().find(s => s.id === 'memoryLow')?.value).toBe(second.memory.low);
+  });
+
+  it('routes named sources through the ModMatrix until they are removed', () => {
+    const { pipeline } = createPipeline();
+    let sourceIds = ['drums'];
+    const source: FrameSource = {
+      getAnalysisFramesSince: () => [],
+      getAnalysisFrame: sourceId => ({ ...silentFrame(1), low: sourceId === 'drums' ? 0.8 : 0 }),
+      getSourceIds: () => sourceIds
+    };
+    const modMatrix = pipeline.step(source).modMatrix;
+    modMatrix.addConnection({ sourceId: 'drums.low', transformId: 'curve1', targetId: 'posX', amount: 1 });
+
+    pipeline.step(source);
+    const sourceValue = (id: string) => modMatrix.getSources().find(s => s.id === id)?.value;
+    expect(sourceValue('drums.low')).toBe(0.8);
+    expect(sourceValue('low')).toBe(0);
+    // curve1 quantizes to eighths
+    expect(modMatrix.getTargets().find(t => t.id === 'posX')?.value).toBe(0.75);
+
+    sourceIds = [];
+    pipeline.step(source);
+    expect(sourceValue('drums.low')).toBeUndefined();
+    expect(modMatrix.getConnections()).toEqual([]);
+  });
+
+  it('treats a source that throws as no audio and recovers', () => {
+    const { pipeline } = createPipeline();
+    const { source, advance } = createSource();
+    let ready = false;
+    const flaky: FrameSource = {
+      getAnalysisFramesSince: time => {
+        if (!ready) throw new Error('Audio engine not initialized');
+        return source.getAnalysisFramesSince(time);
+      },
+      getAnalysisFrame: () => source.getAnalysisFrame()
+    };
+
+    advance(0.05, 0.03);
+    const failed = pipeline.step(flaky);
+    expect(failed.hasAudio).toBe(false);
+    expect(failed.frames).toEqual([]);
+
+    ready = true;
+    const recovered = pipeline.step(flaky);
+    expect(recovered.hasAudio).toBe(true);
+    expect(recovered.frames).toHaveLength(5);
+    expect(recovered.events).toHaveLength(1);
+  });
+
+  it('updates and draws only the active renderer', () => {
+    const { pipeline } = createPipeline();
+    const calls: string[] = [];
+    const renderer = (id: string): FrameRenderer => ({
+      update: (context: FrameContext) => calls.push(`${id}.update ${context.hasAudio}`),
+      render: () => calls.push(`${id}.render`),
+      dispose: () => calls.push(`${id}.dispose`)
+    });
+    pipeline.addRenderer('a', renderer('a'));
+    pipeline.addRenderer('b', renderer('b'));
+
+    pipeline.tick(null);
+    pipeline.setActiveRenderer('b');
+    pipeline.tick(null);
+
+    expect(calls).toEqual(['a.update false', 'a.render', 'b.update false', 'b.render']);
+    expect(() => pipeline.setActiveRenderer('c')).toThrow();
+  });
+});
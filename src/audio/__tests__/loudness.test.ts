@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { LoudnessMeter } from '../LoudnessMeter';
+import { SAMPLE_RATE } from './signals';
+
+// 1 kHz sine with its peak at `dbfs`
+const sine = (dbfs: number, seconds: number): Float32Array => {
+  const amplitude = Math.pow(10, dbfs / 20);
+  const data = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = amplitude * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+  }
+  return data;
+};
+
+describe('LoudnessMeter', () => {
+  it('reads a -23 dBFS stereo sine as -23 LUFS (EBU Tech 3341 case 1)', () => {
+    const signal = sine(-23, 4);
+    const loudness = new LoudnessMeter(SAMPLE_RATE).process([signal, signal]);
+
+    // Tech 3341 allows ±0.1 LU
+    expect(Math.abs(loudness.momentary + 23)).toBeLessThanOrEqual(0.1);
+    expect(Math.abs(loudness.shortTerm + 23)).toBeLessThanOrEqual(0.1);
+    expect(Math.abs(loudness.integrated + 23)).toBeLessThanOrEqual(0.1);
+  });
+
+  it('sums channel energies rather than measuring the downmix', () => {
+    const signal = sine(-23, 1);
+    const silence = new Float32Array(signal.length);
+
+    // One channel alone carries half the energy of both
+    const left = new LoudnessMeter(SAMPLE_RATE).process([signal, silence]);
+    const mono = new LoudnessMeter(SAMPLE_RATE).process([signal]);
+    expect(left.momentary).toBeCloseTo(-26, 0);
+    expect(mono.momentary).toBeCloseTo(left.momentary, 3);
+  });
+});
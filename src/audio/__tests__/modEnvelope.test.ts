@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { ModEnvelope } from '../ModEnvelope';
+import type { ModTransform } from '../../types';
+
+const transform = (settings: Partial<ModTransform>): ModTransform => ({
+  id: 'env',
+  name: 'Envelope',
+  attack: 0.1,
+  hold: 0.1,
+  decay: 0.2,
+  curve: 'linear',
+  range: { min: 0, max: 1 },
+  polarity: 'unipolar',
+  gate: false,
+  trigger: false,
+  jitter: 0,
+  ...settings
+});
+
+// Feed `input(t)` for `seconds` at `fps`, returning the level after each step
+const run = (envelope: ModEnvelope, settings: ModTransform, input: (t: number) => number, seconds: number, fps: number) => {
+  const levels: { t: number; level: number }[] = [];
+  const steps = Math.round(seconds * fps);
+  for (let i = 1; i <= steps; i++) {
+    const t = i / fps;
+    levels.push({ t, level: envelope.process(input(t - 1 / fps), 1 / fps, settings) });
+  }
+  return levels;
+};
+
+const levelAt = (levels: { t: number; level: number }[], t: number) =>
+  levels.find(step => Math.abs(step.t - t) < 1e-9)!.level;
+
+describe('ModEnvelope', () => {
+  it('fires a one-shot attack, hold and decay on a trigger', () => {
+    const settings = transform({ trigger: true });
+    const pulse = (t: number) => (t < 0.02 ? 1 : 0);
+    const levels = run(new ModEnvelope(), settings, pulse, 0.6, 100);
+
+    expect(levelAt(levels, 0.05)).toBeCloseTo(0.5, 6);
+    expect(levelAt(levels, 0.15)).toBe(1);
+    expect(levelAt(levels, 0.3)).toBeCloseTo(0.5, 6);
+    expect(levelAt(levels, 0.4)).toBe(0);
+  });
+
+  it('only fires on a rising edge', () => {
+    const envelope = new ModEnvelope();
+    const settings = transform({ trigger: true, attack: 0, hold: 0, decay: 0.1 });
+    run(envelope, settings, () => 1, 0.5, 60);
+    expect(envelope.getLevel()).toBe(0);
+    expect(envelope.getStage()).toBe('idle');
+  });
+
+  it('holds the sustain level while the gate is open, then releases', () => {
+    const settings = transform({ gate: true, trigger: true, sustain: 0.5, release: 0.4 });
+    const gate = (t: number) => (t < 1 ? 1 : 0);
+    const levels = run(new ModEnvelope(), settings, gate, 1.5, 100);
+
+    expect(levelAt(levels, 0.8)).toBeCloseTo(0.5, 6);
+    // Released from 0.5 at full scale per 0.4 s
+    expect(levelAt(levels, 1.1)).toBeCloseTo(0.25, 6);
+    expect(levelAt(levels, 1.5)).toBe(0);
+  });
+
+  it('retriggers according to the retrigger mode', () => {
+    const settings = (retrigger: ModTransform['retrigger']) => transform({ trigger: true, retrigger, hold: 0, decay: 1 });
+    // Second hit while the first is still decaying
+    const hits = (t: number) => (t < 0.01 || (t >= 0.5 && t < 0.51) ? 1 : 0);
+    const at = (retrigger: ModTransform['retrigger']) =>
+      levelAt(run(new ModEnvelope(), settings(retrigger), hits, 0.55, 100), 0.52);
+
+    // 20 ms into the second attack; the first hit has decayed to 0.6 by then
+    expect(at('restart')).toBeCloseTo(0.2, 6);
+    expect(at('legato')).toBeCloseTo(0.6 + 0.2, 6);
+    expect(at('off')).toBeCloseTo(0.58, 6);
+  });
+
+  it('gives the same shape at any frame rate', () => {
+    const settings = transform({ gate: true, trigger: true, sustain: 0.3, release: 0.25 });
+    const gate = (t: number) => (t < 0.6 ? 1 : 0);
+    for (const t of [0.05, 0.15, 0.3, 0.6, 0.75]) {
+      const coarse = levelAt(run(new ModEnvelope(), settings, gate, 1, 20), t);
+      const fine = levelAt(run(new ModEnvelope(), settings, gate, 1, 100), t);
+      expect(coarse).toBeCloseTo(fine, 6);
+    }
+  });
+
+  it('follows the source with attack and decay when neither gate nor trigger is set', () => {
+    const settings = transform({ attack: 0, hold: 0.1, decay: 0.2 });
+    const envelope = new ModEnvelope();
+    expect(envelope.process(0.8, 1 / 60, settings)).toBe(0.8);
+    // Peak held, then an exponential fall towards the source
+    expect(envelope.process(0, 0.1, settings)).toBe(0.8);
+    expect(envelope.process(0, 0.2, settings)).toBeCloseTo(0.8 * Math.exp(-1), 6);
+  });
+});
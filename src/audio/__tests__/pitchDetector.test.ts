@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { FFT } from '../FFT';
+import { PitchDetector } from '../PitchDetector';
+import { SAMPLE_RATE, noteHz } from './signals';
+
+const FRAME_SIZE = 2048;
+
+const sine = (frequency: number, size = FRAME_SIZE): Float32Array => {
+  const data = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return data;
+};
+
+describe('PitchDetector', () => {
+  it('finds the pitch of a tone across the range', () => {
+    const detector = new PitchDetector(SAMPLE_RATE);
+    for (const midi of [36, 57, 69, 84]) {
+      const estimate = detector.detect(sine(noteHz(midi)));
+      expect(estimate?.midi).toBe(midi);
+      expect(Math.abs(estimate?.cents ?? 100)).toBeLessThan(10);
+      expect(estimate?.clarity).toBeGreaterThan(0.9);
+    }
+  });
+
+  it('returns null for silence and noise', () => {
+    const detector = new PitchDetector(SAMPLE_RATE);
+    expect(detector.detect(new Float32Array(FRAME_SIZE))).toBeNull();
+
+    let seed = 1;
+    const noise = new Float32Array(FRAME_SIZE).map(() => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5;
+    });
+    expect(detector.detect(noise)).toBeNull();
+  });
+
+  it('matches the direct correlation sum', () => {
+    const frequency = noteHz(45);
+    const timeData = sine(frequency).map((value, i) =>
+      value + 0.3 * Math.sin((4 * Math.PI * frequency * i) / SAMPLE_RATE + 1));
+    const window = 1200;
+    const out = new Float32Array(FRAME_SIZE - window + 1);
+    new FFT(FRAME_SIZE).correlate(timeData.subarray(0, window), timeData, out);
+
+    for (const tau of [0, 1, 100, Math.round(SAMPLE_RATE / frequency), out.length - 1]) {
+      let sum = 0;
+      for (let i = 0; i < window; i++) sum += timeData[i] * timeData[i + tau];
+      expect(out[tau]).toBeCloseTo(sum, 2);
+    }
+    expect(() => new FFT(FRAME_SIZE).correlate(timeData, timeData, out)).toThrow();
+  });
+
+  it('keeps up with the audio thread', () => {
+    // One hop of a worklet channel is 512 samples, about 11.6 ms at 44.1 kHz;
+    // several channels each run a detection per hop
+    const detector = new PitchDetector(SAMPLE_RATE);
+    const frames = [220, 330, 440, 550].map(frequency => sine(frequency));
+    for (let i = 0; i < 20; i++) detector.detect(frames[i % frames.length]);
+
+    const runs = 200;
+    const start = performance.now();
+    for (let i = 0; i < runs; i++) detector.detect(frames[i % frames.length]);
+    const perCall = (performance.now() - start) / runs;
+    expect(perCall).toBeLessThan(1.5);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecorder, parseSession, serializeSession } from '../SessionRecorder';
+import type { RecordedSession } from '../SessionRecorder';
+import { SessionReplayer } from '../SessionReplayer';
+import { OfflineAnalyzer } from '../OfflineAnalyzer';
+import type { AnalysisFrame } from '../AnalysisFrame';
+import { SAMPLE_RATE, clickTrack } from './signals';
+
+// Four seconds of a 120 BPM click, as the live stream would deliver it
+// (AudioContext time starting at 100 s)
+const liveFrames = async (): Promise<AnalysisFrame[]> => {
+  const analysis = await new OfflineAnalyzer().analyzeSamples(clickTrack(120, 4), SAMPLE_RATE);
+  return analysis.frames.map(frame => ({
+    ...frame,
+    time: frame.time + 100,
+    onsets: frame.onsets.map(onset => ({ ...onset, time: onset.time + 100 }))
+  }));
+};
+
+// Records `frames` and reads the saved file back
+const record = async (frames: AnalysisFrame[], maxSeconds?: number): Promise<RecordedSession> => {
+  const recorder = new SessionRecorder(maxSeconds);
+  recorder.start();
+  frames.forEach(frame => recorder.record(frame));
+  return parseSession(await recorder.stop().text());
+};
+
+describe('SessionRecorder', () => {
+  it('records frames and events relative to the first frame', async () => {
+    const frames = await liveFrames();
+    const session = await record(frames);
+
+    expect(session.frames).toHaveLength(frames.length);
+    expect(session.frames[0].time).toBe(0);
+    expect(session.duration).toBeCloseTo(frames[frames.length - 1].time - frames[0].time, 4);
+    expect(session.events.length).toBe(frames.reduce((sum, frame) => sum + frame.onsets.length, 0));
+    expect(session.events.every(event => event.t >= 0 && event.t <= session.duration)).toBe(true);
+  });
+
+  it('round-trips through JSON Lines', async () => {
+    const session = await record(await liveFrames());
+    const parsed = parseSession(serializeSession(session));
+
+    expect(parsed.frames).toHaveLength(session.frames.length);
+    expect(parsed.events).toHaveLength(session.events.length);
+    parsed.frames.forEach((frame, i) => {
+      expect(frame.time).toBeCloseTo(session.frames[i].time, 4);
+      expect(frame.rms).toBeCloseTo(session.frames[i].rms, 4);
+      expect(frame.onsets.length).toBe(session.frames[i].onsets.length);
+    });
+  });
+
+  it('stops adding frames at the length limit', async () => {
+    const session = await record(await liveFrames(), 1);
+
+    expect(session.duration).toBeLessThanOrEqual(1);
+    expect(session.duration).toBeGreaterThan(0.95);
+    expect(session.frames[session.frames.length - 1].time).toBe(session.duration);
+    expect(session.events.every(event => event.t <= 1)).toBe(true);
+  });
+
+  it('rejects files without a session header', () => {
+    expect(() => parseSession('{"type":"frame","frame":{}}\n')).toThrow();
+  });
+});
+
+describe('SessionReplayer', () => {
+  const createReplayer = async (loop: boolean) => {
+    let now = 50;
+    const session = await record(await liveFrames());
+    const replayer = new SessionReplayer(session, { loop, clock: () => now });
+    return {
+      session,
+      replayer,
+      advance: (seconds: number) => {
+        now += seconds;
+      },
+      now: () => now
+    };
+  };
+
+  it('delivers every frame once, at the recorded pace, on its own clock', async () => {
+    const { session, replayer, advance, now } = await createReplayer(false);
+    replayer.play();
+
+    const delivered: AnalysisFrame[] = [];
+    let last = 0;
+    for (let i = 0; i < 300; i++) {
+      advance(1 / 60);
+      const frames = replayer.getFramesSince(last);
+      delivered.push(...frames);
+      last = replayer.getFrame().time;
+    }
+
+    expect(delivered).toHaveLength(session.frames.length);
+    delivered.forEach((frame, i) => {
+      expect(frame.time).toBeCloseTo(50 + session.frames[i].time, 6);
+      expect(frame.time).toBeLessThanOrEqual(now());
+    });
+    expect(replayer.isFinished()).toBe(true);
+  });
+
+  it('keeps times increasing across the loop seam', async () => {
+    const { replayer, advance } = await createReplayer(true);
+    replayer.play();
+
+    advance(replayer.getDuration() - 0.1);
+    let last = replayer.getFrame().time;
+    advance(0.2);
+    const frames = replayer.getFramesSince(last);
+
+    expect(frames.length).toBeGreaterThan(0);
+    for (let i = 1; i < frames.length; i++) {
+      expect(frames[i].time).toBeGreaterThan(frames[i - 1].time);
+    }
+    // The second lap starts again with the first recorded frame
+    expect(frames.some(frame => Math.abs(frame.time - (50 + replayer.getDuration())) < 1e-6)).toBe(true);
+    last = frames[frames.length - 1].time;
+    expect(replayer.getFrame().time).toBe(last);
+  });
+
+  it('holds the picture while paused', async () => {
+    const { replayer, advance, now } = await createReplayer(true);
+    replayer.play();
+    advance(1);
+    replayer.pause();
+    const held = replayer.getFrame();
+    advance(1);
+
+    expect(replayer.getFramesSince(held.time)).toEqual([]);
+    expect(replayer.getFrame().time).toBe(now());
+    expect(replayer.getFrame().onsets).toEqual([]);
+    expect(replayer.getPosition()).toBeCloseTo(1, 6);
+  });
+});
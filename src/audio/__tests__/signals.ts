@@ -0,0 +1,37 @@
+import { renderTestSignal, DEFAULT_TEST_SIGNAL } from '../TestSignalGenerator';
+
+// Deterministic synthetic inputs for the analysis tests
+
+export const SAMPLE_RATE = 44100;
+
+// Note name → frequency (equal temperament, A4 = 440 Hz)
+export const noteHz = (midi: number): number => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Sum of sines at equal level, `amplitude` peak overall
+export const tones = (frequencies: number[], seconds: number, amplitude = 0.3): Float32Array => {
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (const frequency of frequencies) {
+      sum += Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    out[i] = (sum / frequencies.length) * amplitude;
+  }
+  return out;
+};
+
+// The generator's click loop (accented downbeat, first click at 0 s) repeated
+// to `seconds`
+export const clickTrack = (bpm: number, seconds: number): Float32Array => {
+  const loop = renderTestSignal({ ...DEFAULT_TEST_SIGNAL, mode: 'click', bpm, level: -6 }, SAMPLE_RATE);
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = loop[i % loop.length];
+  }
+  return out;
+};
+
+export const clickTimes = (bpm: number, seconds: number): number[] => {
+  const interval = 60 / bpm;
+  return Array.from({ length: Math.ceil(seconds / interval) }, (_, i) => i * interval).filter(t => t < seconds);
+};
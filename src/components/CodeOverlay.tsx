@@ -1,11 +1,44 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { PITCH_CLASS_NAMES, formatKey } from '../audio/KeyEstimator';
+import type { BusEvent, EventBus } from '../audio/EventBus';
 
 interface CodeOverlayProps {
   appState: any;
   audioAnalysis: any;
+  tempoLock?: number | null;
+  eventBus?: EventBus;
 }
 
-export const CodeOverlay: React.FC<CodeOverlayProps> = ({ appState, audioAnalysis }) => {
+const formatBusEvent = (event: BusEvent): string => {
+  switch (event.kind) {
+    case 'noteOn':
+      return `NOTE ${PITCH_CLASS_NAMES[event.pitch % 12]}${Math.floor(event.pitch / 12) - 1}`;
+    case 'downbeat':
+      return `BAR ${event.bar + 1}`;
+    case 'section':
+      return event.section.toUpperCase();
+    case 'silenceStart':
+      return 'SILENCE';
+    case 'silenceEnd':
+      return `SOUND (${event.duration.toFixed(1)}s)`;
+    default:
+      return event.kind.toUpperCase();
+  }
+};
+
+export const CodeOverlay: React.FC<CodeOverlayProps> = ({ appState, audioAnalysis, tempoLock = null, eventBus }) => {
+  const isTempoLocked = tempoLock !== null;
+  const [lastEvent, setLastEvent] = useState<BusEvent | null>(null);
+
+  // Structural events only; onsets and beats would re-render every frame
+  useEffect(() => {
+    if (!eventBus) return;
+    return eventBus.subscribe(
+      { kind: ['downbeat', 'noteOn', 'section', 'silenceStart', 'silenceEnd'] },
+      setLastEvent
+    );
+  }, [eventBus]);
+
   if (appState.codeOverlay === 'off') {
     return null;
   }
@@ -29,6 +62,9 @@ export const CodeOverlay: React.FC<CodeOverlayProps> = ({ appState, audioAnalysi
             <div className="mode-indicator">
               {appState.mode.toUpperCase()}
             </div>
+            {isTempoLocked && (
+              <div className="mode-indicator tempo-lock">LOCK {tempoLock.toFixed(1)}</div>
+            )}
           </div>
         </div>
       ) : (
@@ -68,8 +104,32 @@ export const CodeOverlay: React.FC<CodeOverlayProps> = ({ appState, audioAnalysi
                   <div className="value">{audioAnalysis?.high?.toFixed(3) || '0.000'}</div>
                 </div>
                 <div className="data-item">
-                  <label>BPM</label>
-                  <div className="value">{Math.round(audioAnalysis?.bpm || 120)}</div>
+                  <label>BPM{isTempoLocked ? ' (LOCK)' : ''}</label>
+                  <div className={`value ${isTempoLocked ? 'locked' : ''}`}>
+                    {isTempoLocked ? tempoLock.toFixed(1) : Math.round(audioAnalysis?.bpm || 120)}
+                  </div>
+                </div>
+                <div className="data-item">
+                  <label>Beat</label>
+                  <div className="value">
+                    {audioAnalysis ? `${(audioAnalysis.bar ?? 0) + 1}.${(audioAnalysis.beat ?? 0) + 1}` : '-.-'}
+                  </div>
+                </div>
+                <div className="data-item">
+                  <label>Key</label>
+                  <div className="value">
+                    {audioAnalysis?.key !== undefined
+                      ? formatKey({ tonic: audioAnalysis.key, mode: audioAnalysis.keyMode, confidence: audioAnalysis.keyConfidence })
+                      : '---'}
+                  </div>
+                </div>
+                <div className="data-item">
+                  <label>Section</label>
+                  <div className="value">{audioAnalysis?.section?.toUpperCase() ?? '---'}</div>
+                </div>
+                <div className="data-item">
+                  <label>Event</label>
+                  <div className="value">{lastEvent ? formatBusEvent(lastEvent) : '---'}</div>
                 </div>
                 <div className="data-item">
                   <label>Onset</label>
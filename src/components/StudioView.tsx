@@ -5,68 +5,53 @@ import { ModMatrix } from '../audio/ModMatrix';
 import { LivePresets } from '../audio/LivePresets';
 import { PresetSelector } from './PresetSelector';
 import { CodeOverlay } from './CodeOverlay';
-import { useAudioEngine } from '../hooks/useAudioEngine';
-import { EventQueue } from '../audio/EventQueue';
+import type { AudioEngineControls } from '../hooks/useAudioEngine';
+import { EventQueue, DEFAULT_QUANTIZE } from '../audio/EventQueue';
+import type { QuantizeSettings } from '../audio/EventQueue';
+import { FramePipeline } from '../audio/FramePipeline';
 import { StrokeWeaveRenderer } from '../webgl/StrokeWeaveRenderer';
-import { JellyfishPulsesRenderer } from '../webgl/JellyfishPulsesRenderer';
-import { NeuralCircuitRenderer } from '../webgl/NeuralCircuitRenderer';
-import { VolcanicCoreRenderer } from '../webgl/VolcanicCoreRenderer';
-import { CrystalLoomRenderer } from '../webgl/CrystalLoomRenderer';
-import { PaintFlowRenderer } from '../webgl/PaintFlowRenderer';
-import type { AnalysisFrame, AudioEvent } from '../audio/AudioEngine';
+import { RENDERERS, DEFAULT_RENDERER_ID } from '../webgl/renderers';
+import { TRIM_RANGE_DB } from '../audio/InputConditioner';
+import type { AudioSourceType } from '../audio/AudioEngine';
+import type { ChannelMode } from '../audio/InputConditioner';
+import type { TestSignalMode } from '../audio/TestSignalGenerator';
+import { CROSSOVER_RANGE } from '../audio/BandAnalyzer';
 
 interface StudioViewProps {
   appState: any;
   onStateChange: (newState: any) => void;
+  audioEngine: AudioEngineControls;
 }
 
-export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange }) => {
+export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange, audioEngine }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const webglRendererRef = useRef<WebGLRenderer | null>(null);
   const strokeWeaveRef = useRef<StrokeWeaveRenderer | null>(null);
-  const jellyfishPulsesRef = useRef<JellyfishPulsesRenderer | null>(null);
-  const neuralCircuitRef = useRef<NeuralCircuitRenderer | null>(null);
-  const volcanicCoreRef = useRef<VolcanicCoreRenderer | null>(null);
-  const crystalLoomRef = useRef<CrystalLoomRenderer | null>(null);
-  const paintFlowRef = useRef<PaintFlowRenderer | null>(null);
-  const modMatrixRef = useRef<ModMatrix>(new ModMatrix());
-  const eventQueueRef = useRef<EventQueue>(new EventQueue(1.5));
+  // Created once; a constructor argument to useRef would run on every render
+  const [modMatrix] = useState(() => new ModMatrix());
+  const [pipeline] = useState(() => new FramePipeline({ modMatrix, eventQueue: new EventQueue(1.5) }));
   const animationFrameRef = useRef<number | null>(null);
   
-  const [currentRenderer, setCurrentRenderer] = useState<'jellyfish' | 'neural' | 'volcanic' | 'crystal' | 'paintflow'>('paintflow');
-  
-  const audioEngine = useAudioEngine();
+  const [currentRenderer, setCurrentRenderer] = useState<string>(DEFAULT_RENDERER_ID);
+  const [audioSource, setAudioSource] = useState<AudioSourceType>('microphone');
+  const [quantize, setQuantize] = useState<QuantizeSettings>(DEFAULT_QUANTIZE);
 
   useEffect(() => {
     const initializeRenderers = () => {
       if (canvasRef.current) {
         try {
           // Initialize all renderers
-          if (!jellyfishPulsesRef.current) {
-            jellyfishPulsesRef.current = new JellyfishPulsesRenderer(canvasRef.current);
-            console.log('JellyfishPulsesRenderer initialized');
-          }
-          if (!neuralCircuitRef.current) {
-            neuralCircuitRef.current = new NeuralCircuitRenderer(canvasRef.current);
-            console.log('NeuralCircuitRenderer initialized');
-          }
-          if (!volcanicCoreRef.current) {
-            volcanicCoreRef.current = new VolcanicCoreRenderer(canvasRef.current);
-            console.log('VolcanicCoreRenderer initialized');
-          }
-          if (!crystalLoomRef.current) {
-            crystalLoomRef.current = new CrystalLoomRenderer(canvasRef.current);
-            console.log('CrystalLoomRenderer initialized');
-          }
-          if (!paintFlowRef.current) {
-            paintFlowRef.current = new PaintFlowRenderer(canvasRef.current);
-            console.log('PaintFlowRenderer initialized');
+          for (const definition of RENDERERS) {
+            if (!pipeline.hasRenderer(definition.id)) {
+              pipeline.addRenderer(definition.id, definition.create(canvasRef.current));
+              console.log(`${definition.name} renderer initialized`);
+            }
           }
           
           // Apply default preset only if not already set
           if (!appState.activePreset) {
             const defaultPreset = LivePresets.getBeamPreset();
-            LivePresets.applyPresetToModMatrix(modMatrixRef.current, defaultPreset);
+            LivePresets.applyPresetToModMatrix(modMatrix, defaultPreset);
             onStateChange({ activePreset: defaultPreset });
             console.log('Default preset applied:', defaultPreset.name);
           }
@@ -85,259 +70,16 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
 
   useEffect(() => {
     const animate = () => {
+      // Scheduled first, so an exception below cannot stop the loop
+      animationFrameRef.current = requestAnimationFrame(animate);
+
       // Always render, even without audio
-      switch (currentRenderer) {
-        case 'jellyfish':
-          if (jellyfishPulsesRef.current) {
-            // Get audio analysis if available
-            const analysisFrame = audioEngine.audioEngineRef?.current?.getAnalysisFrame?.() as AnalysisFrame;
-            if (analysisFrame) {
-              // Process onsets into events
-              const events: AudioEvent[] = [];
-              for (const onset of analysisFrame.onsets) {
-                events.push({
-                  t: analysisFrame.time,
-                  band: onset.band,
-                  energy: onset.energy,
-                  pitch: analysisFrame.pitch,
-                  centroid: analysisFrame.centroid
-                });
-              }
-              
-              // Push events to queue
-              for (const event of events) {
-                eventQueueRef.current.push(event);
-              }
-              
-              // Get events for this frame
-              const currentTime = analysisFrame.time;
-              const frameEvents = eventQueueRef.current.popSince(currentTime - 0.016, currentTime);
-              
-              jellyfishPulsesRef.current.update(0.016, frameEvents, analysisFrame);
-            } else {
-              // Render without audio data
-              jellyfishPulsesRef.current.update(0.016, [], {
-                time: Date.now() / 1000,
-                rms: 0,
-                low: 0,
-                mid: 0,
-                high: 0,
-                centroid: 0,
-                onsets: [],
-                beatPhase: 0,
-                bassDrum: 0,
-                snare: 0,
-                hihat: 0,
-                kick: 0,
-                vocal: 0,
-                melody: 0,
-                hue: 0,
-                saturation: 0,
-                brightness: 0
-              });
-            }
-            try {
-              jellyfishPulsesRef.current.render();
-            } catch (error) {
-              console.error('JellyfishPulsesRenderer render error:', error);
-            }
-          }
-          break;
-        case 'neural':
-          if (neuralCircuitRef.current) {
-            const analysisFrame = audioEngine.audioEngineRef?.current?.getAnalysisFrame?.() as AnalysisFrame;
-            if (analysisFrame) {
-              const events: AudioEvent[] = [];
-              for (const onset of analysisFrame.onsets) {
-                events.push({
-                  t: analysisFrame.time,
-                  band: onset.band,
-                  energy: onset.energy,
-                  pitch: analysisFrame.pitch,
-                  centroid: analysisFrame.centroid
-                });
-              }
-              for (const event of events) {
-                eventQueueRef.current.push(event);
-              }
-              const currentTime = analysisFrame.time;
-              const frameEvents = eventQueueRef.current.popSince(currentTime - 0.016, currentTime);
-              neuralCircuitRef.current.update(0.016, frameEvents, analysisFrame);
-            } else {
-              neuralCircuitRef.current.update(0.016, [], {
-                time: Date.now() / 1000,
-                rms: 0,
-                low: 0,
-                mid: 0,
-                high: 0,
-                centroid: 0,
-                onsets: [],
-                beatPhase: 0,
-                bassDrum: 0,
-                snare: 0,
-                hihat: 0,
-                kick: 0,
-                vocal: 0,
-                melody: 0,
-                hue: 0,
-                saturation: 0,
-                brightness: 0
-              });
-            }
-            try {
-              neuralCircuitRef.current.render();
-            } catch (error) {
-              console.error('NeuralCircuitRenderer render error:', error);
-            }
-          }
-          break;
-        case 'volcanic':
-          if (volcanicCoreRef.current) {
-            const analysisFrame = audioEngine.audioEngineRef?.current?.getAnalysisFrame?.() as AnalysisFrame;
-            if (analysisFrame) {
-              const events: AudioEvent[] = [];
-              for (const onset of analysisFrame.onsets) {
-                events.push({
-                  t: analysisFrame.time,
-                  band: onset.band,
-                  energy: onset.energy,
-                  pitch: analysisFrame.pitch,
-                  centroid: analysisFrame.centroid
-                });
-              }
-              for (const event of events) {
-                eventQueueRef.current.push(event);
-              }
-              const currentTime = analysisFrame.time;
-              const frameEvents = eventQueueRef.current.popSince(currentTime - 0.016, currentTime);
-              volcanicCoreRef.current.update(0.016, frameEvents, analysisFrame);
-            } else {
-              volcanicCoreRef.current.update(0.016, [], {
-                time: Date.now() / 1000,
-                rms: 0,
-                low: 0,
-                mid: 0,
-                high: 0,
-                centroid: 0,
-                onsets: [],
-                beatPhase: 0,
-                bassDrum: 0,
-                snare: 0,
-                hihat: 0,
-                kick: 0,
-                vocal: 0,
-                melody: 0,
-                hue: 0,
-                saturation: 0,
-                brightness: 0
-              });
-            }
-            try {
-              volcanicCoreRef.current.render();
-            } catch (error) {
-              console.error('VolcanicCoreRenderer render error:', error);
-            }
-          }
-          break;
-        case 'crystal':
-          if (crystalLoomRef.current) {
-            const analysisFrame = audioEngine.audioEngineRef?.current?.getAnalysisFrame?.() as AnalysisFrame;
-            if (analysisFrame) {
-              const events: AudioEvent[] = [];
-              for (const onset of analysisFrame.onsets) {
-                events.push({
-                  t: analysisFrame.time,
-                  band: onset.band,
-                  energy: onset.energy,
-                  pitch: analysisFrame.pitch,
-                  centroid: analysisFrame.centroid
-                });
-              }
-              for (const event of events) {
-                eventQueueRef.current.push(event);
-              }
-              const currentTime = analysisFrame.time;
-              const frameEvents = eventQueueRef.current.popSince(currentTime - 0.016, currentTime);
-              crystalLoomRef.current.update(0.016, frameEvents, analysisFrame);
-            } else {
-              crystalLoomRef.current.update(0.016, [], {
-                time: Date.now() / 1000,
-                rms: 0,
-                low: 0,
-                mid: 0,
-                high: 0,
-                centroid: 0,
-                onsets: [],
-                beatPhase: 0,
-                bassDrum: 0,
-                snare: 0,
-                hihat: 0,
-                kick: 0,
-                vocal: 0,
-                melody: 0,
-                hue: 0,
-                saturation: 0,
-                brightness: 0
-              });
-            }
-            try {
-              crystalLoomRef.current.render();
-            } catch (error) {
-              console.error('CrystalLoomRenderer render error:', error);
-            }
-          }
-          break;
-        case 'paintflow':
-          if (paintFlowRef.current) {
-            const analysisFrame = audioEngine.audioEngineRef?.current?.getAnalysisFrame?.() as AnalysisFrame;
-            if (analysisFrame) {
-              const events: AudioEvent[] = [];
-              for (const onset of analysisFrame.onsets) {
-                events.push({
-                  t: analysisFrame.time,
-                  band: onset.band,
-                  energy: onset.energy,
-                  pitch: analysisFrame.pitch,
-                  centroid: analysisFrame.centroid
-                });
-              }
-              for (const event of events) {
-                eventQueueRef.current.push(event);
-              }
-              const currentTime = analysisFrame.time;
-              const frameEvents = eventQueueRef.current.popSince(currentTime - 0.016, currentTime);
-              paintFlowRef.current.update(0.016, frameEvents, analysisFrame);
-            } else {
-              paintFlowRef.current.update(0.016, [], {
-                time: Date.now() / 1000,
-                rms: 0,
-                low: 0,
-                mid: 0,
-                high: 0,
-                centroid: 0,
-                onsets: [],
-                beatPhase: 0,
-                bassDrum: 0,
-                snare: 0,
-                hihat: 0,
-                kick: 0,
-                vocal: 0,
-                melody: 0,
-                hue: 0,
-                saturation: 0,
-                brightness: 0
-              });
-            }
-            try {
-              paintFlowRef.current.render();
-            } catch (error) {
-              console.error('PaintFlowRenderer render error:', error);
-            }
-          }
-          break;
+      if (pipeline.hasRenderer(currentRenderer)) {
+        pipeline.setActiveRenderer(currentRenderer);
+        // The hook publishes the engine before initialize() resolves
+        const engine = audioEngine.audioEngineRef?.current ?? null;
+        pipeline.tick(engine?.isReady() ? engine : null);
       }
-      
-      animationFrameRef.current = requestAnimationFrame(animate);
     };
 
     // Always run animation for continuous visual output
@@ -360,14 +102,50 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
       onStateChange({ isPlaying: false });
     } else {
       try {
-        await audioEngine.startMicrophone();
-        onStateChange({ isPlaying: true });
+        // Only "playing" once capture really started (permission, audio track)
+        let started = true;
+        switch (audioSource) {
+          case 'microphone':
+            started = await audioEngine.startMicrophone(audioEngine.selectedDeviceId ?? undefined);
+            break;
+          case 'tab':
+            started = await audioEngine.startTabCapture();
+            break;
+          case 'file':
+            // Resume the loaded track; new files start playing on load
+            if (!audioEngine.transportState) return;
+            audioEngine.play();
+            break;
+          case 'generator':
+            started = audioEngine.startTestSignal();
+            break;
+          case 'replay':
+            // Recorded sessions start playing on load
+            if (!audioEngine.replaySession) return;
+            audioEngine.startReplay();
+            break;
+        }
+        if (started) {
+          onStateChange({ isPlaying: true });
+        }
       } catch (error) {
         console.error('Failed to start audio:', error);
       }
     }
   };
 
+  const handleSourceChange = (source: AudioSourceType) => {
+    if (source === audioSource) return;
+    
+    // Only one input source is analysed at a time
+    if (appState.isPlaying) {
+      audioEngine.stop();
+      onStateChange({ isPlaying: false });
+    }
+    pipeline.reset();
+    setAudioSource(source);
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -388,9 +166,49 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
     }
   };
 
+  const handleReplayUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!audioEngine.isInitialized) {
+      await audioEngine.initialize();
+    }
+    await audioEngine.loadReplay(file);
+    onStateChange({ isPlaying: true });
+  };
+
+  // Toggle session recording; stopping saves the .jsonl file
+  const handleRecordToggle = () => {
+    if (!audioEngine.isRecording) {
+      audioEngine.startRecording();
+      return;
+    }
+
+    const session = audioEngine.stopRecording();
+    if (!session) return;
+    const url = URL.createObjectURL(session);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hikariweave-session-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const updateQuantize = (updates: Partial<QuantizeSettings>) => {
+    const eventQueue = pipeline.getEventQueue();
+    eventQueue.setQuantize(updates);
+    setQuantize(eventQueue.getQuantize());
+  };
+
+  const formatTime = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = Math.floor(seconds % 60);
+    return `${minutes}:${rest.toString().padStart(2, '0')}`;
+  };
+
   const handlePresetSelect = (preset: any) => {
     onStateChange({ activePreset: preset });
-    LivePresets.applyPresetToModMatrix(modMatrixRef.current, preset);
+    LivePresets.applyPresetToModMatrix(modMatrix, preset);
   };
 
   return (
@@ -417,12 +235,140 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
             {appState.isPlaying ? '⏸' : '▶️'}
           </button>
           
-          <input
-            type="file"
-            accept="audio/*"
-            onChange={handleFileUpload}
-            className="file-input"
-          />
+          <div className="source-selector">
+            {([
+              ['microphone', 'Mic'],
+              ['file', 'File'],
+              ['tab', 'Tab'],
+              ['generator', 'Test'],
+              ['replay', 'Replay']
+            ] as const).map(([source, label]) => (
+              <button
+                key={source}
+                className={`source-button ${audioSource === source ? 'active' : ''}`}
+                onClick={() => handleSourceChange(source)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          
+          {audioSource === 'microphone' && audioEngine.inputDevices.length > 0 && (
+            <select
+              className="device-select"
+              value={audioEngine.selectedDeviceId ?? ''}
+              onChange={(e) => {
+                audioEngine.selectInputDevice(e.target.value).catch((error) => {
+                  console.error('Failed to switch audio input:', error);
+                });
+              }}
+            >
+              <option value="" disabled>Select input device</option>
+              {audioEngine.inputDevices.map(device => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+            </select>
+          )}
+          
+          {audioSource === 'generator' && (
+            <div className="test-signal-control">
+              <select
+                className="device-select"
+                value={audioEngine.testSignal.mode}
+                onChange={(e) => audioEngine.updateTestSignal({ mode: e.target.value as TestSignalMode })}
+              >
+                <option value="click">Click</option>
+                <option value="drums">Kick / Snare / Hat</option>
+                <option value="sweep">Sine Sweep</option>
+                <option value="whiteNoise">White Noise</option>
+                <option value="pinkNoise">Pink Noise</option>
+              </select>
+              {(audioEngine.testSignal.mode === 'click' || audioEngine.testSignal.mode === 'drums') && (
+                <input
+                  type="number"
+                  className="test-signal-bpm"
+                  min="40"
+                  max="240"
+                  value={audioEngine.testSignal.bpm}
+                  onChange={(e) => {
+                    const bpm = parseFloat(e.target.value);
+                    if (bpm >= 40 && bpm <= 240) audioEngine.updateTestSignal({ bpm });
+                  }}
+                />
+              )}
+              <button
+                className={`limiter-button ${audioEngine.testSignal.muted ? 'active' : ''}`}
+                title="Analyse the test signal without playing it"
+                onClick={() => audioEngine.updateTestSignal({ muted: !audioEngine.testSignal.muted })}
+              >
+                Mute
+              </button>
+            </div>
+          )}
+          
+          {audioSource === 'file' && (
+            <input
+              type="file"
+              accept="audio/*"
+              onChange={handleFileUpload}
+              className="file-input"
+            />
+          )}
+          
+          {audioSource === 'file' && audioEngine.transportState && (
+            <div className="transport-control">
+              <input
+                type="range"
+                className="scrub-bar"
+                min="0"
+                max={audioEngine.transportState.duration}
+                step="0.01"
+                value={audioEngine.transportState.position}
+                onChange={(e) => audioEngine.seek(parseFloat(e.target.value))}
+              />
+              <div className="transport-row">
+                <span className="transport-time">
+                  {formatTime(audioEngine.transportState.position)} / {formatTime(audioEngine.transportState.duration)}
+                </span>
+                <button
+                  className={`loop-button ${audioEngine.transportState.loopIn !== null ? 'active' : ''}`}
+                  onClick={() => audioEngine.setLoopIn(audioEngine.transportState!.position)}
+                >
+                  IN
+                </button>
+                <button
+                  className={`loop-button ${audioEngine.transportState.loopOut !== null ? 'active' : ''}`}
+                  onClick={() => audioEngine.setLoopOut(audioEngine.transportState!.position)}
+                >
+                  OUT
+                </button>
+                <button className="loop-button" onClick={audioEngine.clearLoop}>
+                  CLR
+                </button>
+              </div>
+            </div>
+          )}
+          
+          {audioSource === 'replay' && (
+            <input
+              type="file"
+              accept=".jsonl,application/x-ndjson"
+              onChange={handleReplayUpload}
+              className="file-input"
+            />
+          )}
+          
+          {audioSource !== 'replay' && audioEngine.isInitialized && (
+            <button
+              className={`limiter-button record-button ${audioEngine.isRecording ? 'active' : ''}`}
+              title="Record the analysis stream to a session file"
+              onClick={handleRecordToggle}
+            >
+              ● REC
+            </button>
+          )}
           
           <div className="volume-control">
             <label>Volume</label>
@@ -435,31 +381,118 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
               onChange={(e) => {
                 const volume = parseFloat(e.target.value);
                 console.log('Volume changed to:', volume);
-                
-                // Update both file and microphone volume
-                if (audioEngine.audioEngineRef?.current) {
-                  const audioEngineInstance = audioEngine.audioEngineRef.current as any;
-                  
-                  // Update file audio volume
-                  if (audioEngineInstance.gainNode) {
-                    audioEngineInstance.gainNode.gain.value = volume;
-                    console.log('File audio volume set to:', volume);
-                  }
-                  
-                  // Update microphone volume
-                  if (audioEngineInstance.micGainNode) {
-                    audioEngineInstance.micGainNode.gain.value = volume * 0.5; // Lower volume for mic
-                    console.log('Microphone volume set to:', volume * 0.5);
-                  }
-                  
-                  if (!audioEngineInstance.gainNode && !audioEngineInstance.micGainNode) {
-                    console.warn('No gain nodes found for volume control');
-                  }
-                }
+                audioEngine.setVolume(volume);
               }}
             />
           </div>
           
+          <div className="conditioning-control">
+            <div className="conditioning-row">
+              <label>Trim {audioEngine.inputConditioning.trimDb > 0 ? '+' : ''}{audioEngine.inputConditioning.trimDb.toFixed(1)} dB</label>
+              <span className={`clip-indicator ${audioEngine.inputLevel?.clipping ? 'clipping' : ''}`}>
+                CLIP
+              </span>
+            </div>
+            <input
+              type="range"
+              min={TRIM_RANGE_DB.min}
+              max={TRIM_RANGE_DB.max}
+              step="0.5"
+              value={audioEngine.inputConditioning.trimDb}
+              onChange={(e) => audioEngine.updateInputConditioning({ trimDb: parseFloat(e.target.value) })}
+            />
+            <div className="level-meter">
+              <div
+                className="level-meter-fill"
+                style={{ width: `${Math.min(1, audioEngine.inputLevel?.peak ?? 0) * 100}%` }}
+              />
+            </div>
+            <div className="conditioning-row">
+              <select
+                className="channel-select"
+                value={audioEngine.inputConditioning.channelMode}
+                onChange={(e) => audioEngine.updateInputConditioning({ channelMode: e.target.value as ChannelMode })}
+              >
+                <option value="stereo">Stereo</option>
+                <option value="mono">Mono</option>
+                <option value="left">L</option>
+                <option value="right">R</option>
+              </select>
+              <button
+                className={`limiter-button ${audioEngine.inputConditioning.limiterEnabled ? 'active' : ''}`}
+                onClick={() => audioEngine.updateInputConditioning({ limiterEnabled: !audioEngine.inputConditioning.limiterEnabled })}
+              >
+                LIM
+              </button>
+              <button
+                className={`limiter-button ${audioEngine.autoGain.enabled ? 'active' : ''}`}
+                title={`Normalize analysis to ${audioEngine.autoGain.targetLufs} LUFS`}
+                onClick={() => audioEngine.updateAutoGain({ enabled: !audioEngine.autoGain.enabled })}
+              >
+                AGC
+              </button>
+            </div>
+            {audioEngine.analysis && (
+              <div className="loudness-readout">
+                M {audioEngine.analysis.loudnessMomentary.toFixed(1)} / I {audioEngine.analysis.loudnessIntegrated.toFixed(1)} LUFS
+                {' '}· LRA {audioEngine.analysis.loudnessRange.toFixed(1)} LU
+                {audioEngine.autoGain.enabled && ` · ${audioEngine.analysis.autoGainDb > 0 ? '+' : ''}${audioEngine.analysis.autoGainDb.toFixed(1)} dB`}
+              </div>
+            )}
+          </div>
+          
+          <div className="crossover-control">
+            <label>Low/Mid {Math.round(audioEngine.crossover.lowMid)} Hz</label>
+            <input
+              type="range"
+              min={Math.log10(CROSSOVER_RANGE.lowMid.min)}
+              max={Math.log10(CROSSOVER_RANGE.lowMid.max)}
+              step="0.01"
+              value={Math.log10(audioEngine.crossover.lowMid)}
+              onChange={(e) => audioEngine.updateCrossover({ lowMid: Math.pow(10, parseFloat(e.target.value)) })}
+            />
+            <label>Mid/High {Math.round(audioEngine.crossover.midHigh)} Hz</label>
+            <input
+              type="range"
+              min={Math.log10(CROSSOVER_RANGE.midHigh.min)}
+              max={Math.log10(CROSSOVER_RANGE.midHigh.max)}
+              step="0.01"
+              value={Math.log10(audioEngine.crossover.midHigh)}
+              onChange={(e) => audioEngine.updateCrossover({ midHigh: Math.pow(10, parseFloat(e.target.value)) })}
+            />
+          </div>
+          
+          <div className="quantize-control">
+            <div className="conditioning-row">
+              <label>Grid</label>
+              <select
+                className="device-select"
+                value={quantize.enabled ? quantize.division : 0}
+                onChange={(e) => {
+                  const division = parseInt(e.target.value, 10);
+                  updateQuantize(division > 0 ? { enabled: true, division } : { enabled: false });
+                }}
+              >
+                <option value={0}>Off</option>
+                <option value={2}>1/8</option>
+                <option value={4}>1/16</option>
+              </select>
+            </div>
+            {quantize.enabled && (
+              <>
+                <label>Swing {Math.round(quantize.swing * 100)}%</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={quantize.swing}
+                  onChange={(e) => updateQuantize({ swing: parseFloat(e.target.value) })}
+                />
+              </>
+            )}
+          </div>
+          
           {audioEngine.error && (
             <div className="error-message">
               {audioEngine.error}
@@ -472,50 +505,17 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
         <div className="mode-selector">
           <h3>🎨 Visual Styles</h3>
           <div className="preset-grid">
-            <button 
-              className={`preset-button ${currentRenderer === 'jellyfish' ? 'active' : ''}`}
-              onClick={() => setCurrentRenderer('jellyfish')}
-            >
-              <div className="preset-icon">🪼</div>
-              <div className="preset-name">Jellyfish Pulses</div>
-              <div className="preset-description">深海生物発光スタイル - 有機的で流動的な表現</div>
-            </button>
-            
-            <button 
-              className={`preset-button ${currentRenderer === 'neural' ? 'active' : ''}`}
-              onClick={() => setCurrentRenderer('neural')}
-            >
-              <div className="preset-icon">🧠</div>
-              <div className="preset-name">Neural Circuit</div>
-              <div className="preset-description">神経回路スタイル - 構造的で電気的な表現</div>
-            </button>
-            
-            <button 
-              className={`preset-button ${currentRenderer === 'volcanic' ? 'active' : ''}`}
-              onClick={() => setCurrentRenderer('volcanic')}
-            >
-              <div className="preset-icon">🌋</div>
-              <div className="preset-name">Volcanic Core</div>
-              <div className="preset-description">溶岩コアスタイル - 熱的で渦巻く表現</div>
-            </button>
-            
-            <button 
-              className={`preset-button ${currentRenderer === 'crystal' ? 'active' : ''}`}
-              onClick={() => setCurrentRenderer('crystal')}
-            >
-              <div className="preset-icon">🔷</div>
-              <div className="preset-name">Crystal Loom</div>
-              <div className="preset-description">幾何学グリッドスタイル - 数学的で構造的な表現</div>
-            </button>
-            
-            <button 
-              className={`preset-button ${currentRenderer === 'paintflow' ? 'active' : ''}`}
-              onClick={() => setCurrentRenderer('paintflow')}
-            >
-              <div className="preset-icon">🎨</div>
-              <div className="preset-name">Paint Flow</div>
-              <div className="preset-description">ラメ入り絵の具スタイル - 上下から交わる流動的な表現</div>
-            </button>
+            {RENDERERS.map(definition => (
+              <button 
+                key={definition.id}
+                className={`preset-button ${currentRenderer === definition.id ? 'active' : ''}`}
+                onClick={() => setCurrentRenderer(definition.id)}
+              >
+                <div className="preset-icon">{definition.icon}</div>
+                <div className="preset-name">{definition.name}</div>
+                <div className="preset-description">{definition.description}</div>
+              </button>
+            ))}
           </div>
         </div>
         
@@ -531,6 +531,8 @@ export const StudioView: React.FC<StudioViewProps> = ({ appState, onStateChange
       <CodeOverlay 
         appState={appState} 
         audioAnalysis={audioEngine.analysis} 
+        tempoLock={audioEngine.tempoLock}
+        eventBus={pipeline.getEventBus()}
       />
       
     </div>
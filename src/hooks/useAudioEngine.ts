@@ -1,15 +1,49 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { AudioEngine } from '../audio/AudioEngine';
-import type { AnalysisFrame } from '../audio/AudioEngine';
+import type { AnalysisFrame, AudioInputDevice, AudioSourceType } from '../audio/AudioEngine';
+import type { TransportState } from '../audio/AudioTransport';
+import { DEFAULT_INPUT_CONDITIONING } from '../audio/InputConditioner';
+import type { InputConditioningSettings, InputLevel } from '../audio/InputConditioner';
+import { DEFAULT_CROSSOVER } from '../audio/BandAnalyzer';
+import type { CrossoverSettings } from '../audio/BandAnalyzer';
+import { DEFAULT_AUTO_GAIN } from '../audio/FrameAnalyzer';
+import type { AutoGainSettings } from '../audio/FrameAnalyzer';
+import { DEFAULT_TEST_SIGNAL } from '../audio/TestSignalGenerator';
+import type { TestSignalSettings } from '../audio/TestSignalGenerator';
+import { parseSession } from '../audio/SessionRecorder';
+import type { RecordedSession } from '../audio/SessionRecorder';
 
-export const useAudioEngine = () => {
+interface UseAudioEngineOptions {
+  onSourceEnded?: (source: AudioSourceType) => void;
+}
+
+export const useAudioEngine = (options: UseAudioEngineOptions = {}) => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [analysis, setAnalysis] = useState<AnalysisFrame | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [inputDevices, setInputDevices] = useState<AudioInputDevice[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+  const [transportState, setTransportState] = useState<TransportState | null>(null);
+  const [inputConditioning, setInputConditioning] = useState<InputConditioningSettings>(DEFAULT_INPUT_CONDITIONING);
+  const [inputLevel, setInputLevel] = useState<InputLevel | null>(null);
+  const [tempoLock, setTempoLockState] = useState<number | null>(null);
+  const [crossover, setCrossover] = useState<CrossoverSettings>(DEFAULT_CROSSOVER);
+  const [autoGain, setAutoGain] = useState<AutoGainSettings>(DEFAULT_AUTO_GAIN);
+  const [sourceIds, setSourceIds] = useState<string[]>([]);
+  const [testSignal, setTestSignal] = useState<TestSignalSettings>(DEFAULT_TEST_SIGNAL);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replaySession, setReplaySession] = useState<RecordedSession | null>(null);
   
   const audioEngineRef = useRef<AudioEngine | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const onSourceEndedRef = useRef(options.onSourceEnded);
+  onSourceEndedRef.current = options.onSourceEnded;
+
+  // Named analysis sources change whenever an input starts or stops
+  const syncSources = useCallback(() => {
+    setSourceIds(audioEngineRef.current?.getSourceIds() ?? []);
+  }, []);
 
   const initialize = useCallback(async () => {
     try {
@@ -18,6 +52,11 @@ export const useAudioEngine = () => {
       }
       
       await audioEngineRef.current.initialize();
+      setSelectedDeviceId(audioEngineRef.current.getSelectedDeviceId());
+      setInputConditioning(audioEngineRef.current.getInputConditioning());
+      setCrossover(audioEngineRef.current.getCrossover());
+      setAutoGain(audioEngineRef.current.getAutoGain());
+      setInputDevices(await audioEngineRef.current.getInputDevices());
       setIsInitialized(true);
       setError(null);
     } catch (err) {
@@ -25,19 +64,55 @@ export const useAudioEngine = () => {
     }
   }, []);
 
-  const startMicrophone = useCallback(async () => {
+  // Start functions resolve to whether the source actually started; failures
+  // are reported through `error`
+  const startMicrophone = useCallback(async (deviceId?: string): Promise<boolean> => {
     if (!audioEngineRef.current) {
       throw new Error('Audio engine not initialized');
     }
     
+    let started = false;
     try {
-      await audioEngineRef.current.startMicrophone();
+      await audioEngineRef.current.startMicrophone(deviceId);
+      setSelectedDeviceId(audioEngineRef.current.getSelectedDeviceId());
+      // Device labels become available once permission is granted
+      setInputDevices(await audioEngineRef.current.getInputDevices());
       setIsPlaying(true);
       setError(null);
+      started = true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start microphone');
     }
-  }, []);
+    syncSources();
+    return started;
+  }, [syncSources]);
+
+  const selectInputDevice = useCallback(async (deviceId: string) => {
+    setSelectedDeviceId(deviceId);
+    
+    // Switch immediately when the microphone is live, otherwise apply on next start
+    if (audioEngineRef.current && isPlaying) {
+      await startMicrophone(deviceId);
+    }
+  }, [isPlaying, startMicrophone]);
+
+  const startTabCapture = useCallback(async (): Promise<boolean> => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    let started = false;
+    try {
+      await audioEngineRef.current.startTabCapture();
+      setIsPlaying(true);
+      setError(null);
+      started = true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to capture tab audio');
+    }
+    syncSources();
+    return started;
+  }, [syncSources]);
 
   const loadAudioFile = useCallback(async (file: File) => {
     if (!audioEngineRef.current) {
@@ -46,23 +121,227 @@ export const useAudioEngine = () => {
     
     try {
       await audioEngineRef.current.loadAudioFile(file);
+      setTransportState(audioEngineRef.current.getTransport()?.getState() ?? null);
       setIsPlaying(true);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load audio file');
     }
+    syncSources();
+  }, [syncSources]);
+
+  const startTestSignal = useCallback((): boolean => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    let started = false;
+    try {
+      audioEngineRef.current.startTestSignal();
+      setIsPlaying(true);
+      setError(null);
+      started = true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start test signal');
+    }
+    syncSources();
+    return started;
+  }, [syncSources]);
+
+  const updateTestSignal = useCallback((updates: Partial<TestSignalSettings>) => {
+    if (!audioEngineRef.current) {
+      setTestSignal(prev => ({ ...prev, ...updates }));
+      return;
+    }
+    
+    audioEngineRef.current.updateTestSignal(updates);
+    setTestSignal(audioEngineRef.current.getTestSignal());
+  }, []);
+
+  // Session recording of the live analysis stream
+  const startRecording = useCallback(() => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    audioEngineRef.current.startRecording();
+    setIsRecording(true);
+  }, []);
+
+  // Returns the recorded session as a JSON Lines file, ready to save
+  const stopRecording = useCallback((): Blob | null => {
+    if (!audioEngineRef.current?.isRecording()) return null;
+    
+    const file = audioEngineRef.current.stopRecording();
+    setIsRecording(false);
+    return file;
+  }, []);
+
+  // Replay a recorded session file in place of live analysis
+  const loadReplay = useCallback(async (file: File) => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    try {
+      const session = parseSession(await file.text());
+      audioEngineRef.current.startReplay(session);
+      setReplaySession(session);
+      setIsPlaying(true);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recorded session');
+    }
+  }, []);
+
+  // Restart the loaded session from the top
+  const startReplay = useCallback(() => {
+    if (!audioEngineRef.current || !replaySession) return;
+    
+    audioEngineRef.current.startReplay(replaySession);
+    setIsPlaying(true);
+  }, [replaySession]);
+
+  // Stem of the loaded track, analysed as its own source under `id`
+  const loadStem = useCallback(async (id: string, file: File) => {
+    if (!audioEngineRef.current) {
+      throw new Error('Audio engine not initialized');
+    }
+    
+    try {
+      await audioEngineRef.current.loadStem(id, file);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stem');
+    }
+    syncSources();
+  }, [syncSources]);
+
+  const removeSource = useCallback((id: string) => {
+    audioEngineRef.current?.removeSource(id);
+    syncSources();
+  }, [syncSources]);
+
+  // File transport controls
+  const syncTransport = useCallback(() => {
+    setTransportState(audioEngineRef.current?.getTransport()?.getState() ?? null);
+  }, []);
+
+  const play = useCallback(() => {
+    const transport = audioEngineRef.current?.getTransport();
+    if (!transport?.isLoaded()) return;
+    
+    transport.play();
+    setIsPlaying(true);
+    syncTransport();
+  }, [syncTransport]);
+
+  const pause = useCallback(() => {
+    audioEngineRef.current?.getTransport()?.pause();
+    setIsPlaying(false);
+    syncTransport();
+  }, [syncTransport]);
+
+  const seek = useCallback((position: number) => {
+    audioEngineRef.current?.getTransport()?.seek(position);
+    syncTransport();
+  }, [syncTransport]);
+
+  const setLoopIn = useCallback((position: number | null) => {
+    audioEngineRef.current?.getTransport()?.setLoopIn(position);
+    syncTransport();
+  }, [syncTransport]);
+
+  const setLoopOut = useCallback((position: number | null) => {
+    audioEngineRef.current?.getTransport()?.setLoopOut(position);
+    syncTransport();
+  }, [syncTransport]);
+
+  const clearLoop = useCallback(() => {
+    audioEngineRef.current?.getTransport()?.clearLoop();
+    syncTransport();
+  }, [syncTransport]);
+
+  const updateInputConditioning = useCallback((updates: Partial<InputConditioningSettings>) => {
+    if (!audioEngineRef.current) {
+      setInputConditioning(prev => ({ ...prev, ...updates }));
+      return;
+    }
+    
+    audioEngineRef.current.updateInputConditioning(updates);
+    setInputConditioning(audioEngineRef.current.getInputConditioning());
+  }, []);
+
+  const updateCrossover = useCallback((updates: Partial<CrossoverSettings>) => {
+    if (!audioEngineRef.current) {
+      setCrossover(prev => ({ ...prev, ...updates }));
+      return;
+    }
+    
+    audioEngineRef.current.updateCrossover(updates);
+    setCrossover(audioEngineRef.current.getCrossover());
+  }, []);
+
+  const updateAutoGain = useCallback((updates: Partial<AutoGainSettings>) => {
+    if (!audioEngineRef.current) {
+      setAutoGain(prev => ({ ...prev, ...updates }));
+      return;
+    }
+    
+    audioEngineRef.current.updateAutoGain(updates);
+    setAutoGain(audioEngineRef.current.getAutoGain());
+  }, []);
+
+  const setVolume = useCallback((volume: number) => {
+    audioEngineRef.current?.setVolume(volume);
+  }, []);
+
+  // Beat clock overrides
+  const tapTempo = useCallback(() => {
+    if (!audioEngineRef.current) return;
+    
+    audioEngineRef.current.tapTempo();
+    setTempoLockState(audioEngineRef.current.getTempoLock());
+  }, []);
+
+  const setTempoLock = useCallback((bpm: number | null) => {
+    audioEngineRef.current?.setTempoLock(bpm);
+    setTempoLockState(bpm);
+  }, []);
+
+  const toggleTempoLock = useCallback(() => {
+    if (!audioEngineRef.current) return;
+    
+    setTempoLockState(audioEngineRef.current.toggleTempoLock());
+  }, []);
+
+  const adjustTempoLock = useCallback((delta: number) => {
+    const bpm = audioEngineRef.current?.getTempoLock();
+    if (bpm === null || bpm === undefined) return;
+    
+    setTempoLock(Math.max(20, Math.round((bpm + delta) * 10) / 10));
+  }, [setTempoLock]);
+
+  const nudgeBeat = useCallback((beats: number) => {
+    audioEngineRef.current?.nudgeBeat(beats);
+  }, []);
+
+  const resyncBeat = useCallback(() => {
+    audioEngineRef.current?.resyncBeat();
   }, []);
 
   const stop = useCallback(() => {
     if (audioEngineRef.current) {
       audioEngineRef.current.stop();
     }
+    syncTransport();
+    syncSources();
     setIsPlaying(false);
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
       animationFrameRef.current = null;
     }
-  }, []);
+  }, [syncTransport, syncSources]);
 
   const updateAnalysis = useCallback(() => {
     if (!audioEngineRef.current || !isPlaying) return;
@@ -70,12 +349,16 @@ export const useAudioEngine = () => {
     try {
       const newAnalysis = audioEngineRef.current.getAnalysisFrame();
       setAnalysis(newAnalysis);
+      setInputLevel(audioEngineRef.current.getInputLevel());
+      if (newAnalysis.trackPosition !== undefined) {
+        syncTransport();
+      }
     } catch (err) {
       console.error('Analysis error:', err);
     }
 
     animationFrameRef.current = requestAnimationFrame(updateAnalysis);
-  }, [isPlaying]);
+  }, [isPlaying, syncTransport]);
 
   useEffect(() => {
     if (isPlaying) {
@@ -94,6 +377,21 @@ export const useAudioEngine = () => {
     };
   }, [isPlaying, updateAnalysis]);
 
+  useEffect(() => {
+    if (!isInitialized || !audioEngineRef.current) return;
+
+    return audioEngineRef.current.onDeviceChange(setInputDevices);
+  }, [isInitialized]);
+
+  useEffect(() => {
+    if (!isInitialized || !audioEngineRef.current) return;
+
+    return audioEngineRef.current.onSourceEnded((source) => {
+      setIsPlaying(false);
+      onSourceEndedRef.current?.(source);
+    });
+  }, [isInitialized]);
+
   useEffect(() => {
     return () => {
       if (audioEngineRef.current) {
@@ -108,10 +406,50 @@ export const useAudioEngine = () => {
     isPlaying,
     analysis,
     error,
+    inputDevices,
+    selectedDeviceId,
+    transportState,
+    inputConditioning,
+    inputLevel,
+    tempoLock,
+    crossover,
+    autoGain,
+    sourceIds,
+    testSignal,
+    isRecording,
+    replaySession,
     initialize,
     startMicrophone,
+    selectInputDevice,
+    startTabCapture,
     loadAudioFile,
+    loadStem,
+    removeSource,
+    startTestSignal,
+    updateTestSignal,
+    startRecording,
+    stopRecording,
+    loadReplay,
+    startReplay,
+    play,
+    pause,
+    seek,
+    setLoopIn,
+    setLoopOut,
+    clearLoop,
+    updateInputConditioning,
+    updateCrossover,
+    updateAutoGain,
+    setVolume,
+    tapTempo,
+    setTempoLock,
+    toggleTempoLock,
+    adjustTempoLock,
+    nudgeBeat,
+    resyncBeat,
     stop,
     setFFTSize: audioEngineRef.current?.setFFTSize.bind(audioEngineRef.current)
   };
 };
+
+export type AudioEngineControls = ReturnType<typeof useAudioEngine>;
@@ -8,9 +8,24 @@ export interface AudioAnalysis {
   high: number;
   onset: boolean;
   bpm: number;
-  spectralCentroid: number;
-  pitch: number;
+  spectralCentroid: number; // [0..1]
+  spread?: number;
+  flatness?: number;
+  rolloff?: number;
+  flux?: number;
+  zcr?: number;
+  mfcc?: number[];
+  pitch: number; // MIDI note
+  pitchClarity?: number;
   chroma: number[];
+  loudness?: number; // momentary (LUFS)
+  loudnessShortTerm?: number; // LUFS
+  loudnessIntegrated?: number; // LUFS
+  loudnessRange?: number; // LU
+  balance?: number; // -1 (left)..1 (right)
+  width?: number; // 0..1
+  correlation?: number; // -1..1
+  stereoBands?: Record<string, { balance: number; width: number; correlation: number }>;
 }
 
 // Mod Matrix Types
@@ -18,15 +33,19 @@ export interface ModSource {
   id: string;
   name: string;
   value: number;
-  type: 'audio' | 'manual' | 'lfo';
+  type: 'audio' | 'manual' | 'lfo' | 'memory';
 }
 
 export interface ModTransform {
   id: string;
   name: string;
-  attack: number;
-  decay: number;
-  hold: number;
+  attack: number; // seconds
+  decay: number; // seconds
+  hold: number; // seconds
+  sustain?: number; // level held while the gate is open [0..1] (default 1)
+  release?: number; // seconds (default: decay)
+  threshold?: number; // gate/trigger threshold (default 0.1)
+  retrigger?: 'restart' | 'legato' | 'off'; // what a new rise does while the envelope runs
   curve: 'linear' | 'exponential' | 'logarithmic' | 'quantized';
   range: { min: number; max: number };
   polarity: 'unipolar' | 'bipolar';
@@ -1,7 +1,8 @@
 import * as THREE from 'three';
-import type { AudioEvent, AnalysisFrame } from '../audio/AudioEngine';
+import type { AudioEvent } from '../audio/AudioEngine';
+import type { FrameContext, FrameRenderer } from '../audio/FramePipeline';
 
-export class CrystalLoomRenderer {
+export class CrystalLoomRenderer implements FrameRenderer {
   private scene: THREE.Scene;
   private camera: THREE.OrthographicCamera;
   private renderer: THREE.WebGLRenderer;
@@ -270,7 +271,8 @@ export class CrystalLoomRenderer {
     });
   }
 
-  update(deltaTime: number, events: AudioEvent[], analysisFrame: AnalysisFrame): void {
+  update(context: FrameContext): void {
+    const { deltaTime, events, frame: analysisFrame } = context;
     this.time += deltaTime;
     
     // Update audio reactive parameters
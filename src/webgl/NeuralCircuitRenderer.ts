@@ -1,7 +1,8 @@
 import * as THREE from 'three';
-import type { AudioEvent, AnalysisFrame } from '../audio/AudioEngine';
+import type { AudioEvent } from '../audio/AudioEngine';
+import type { FrameContext, FrameRenderer } from '../audio/FramePipeline';
 
-export class NeuralCircuitRenderer {
+export class NeuralCircuitRenderer implements FrameRenderer {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
   private renderer: THREE.WebGLRenderer;
@@ -364,7 +365,8 @@ export class NeuralCircuitRenderer {
     this.scene.add(this.particleSystem);
   }
 
-  update(deltaTime: number, events: AudioEvent[], analysis: AnalysisFrame): void {
+  update(context: FrameContext): void {
+    const { deltaTime, events, frame: analysis } = context;
     this.time += deltaTime;
     
     // Update audio reactive parameters
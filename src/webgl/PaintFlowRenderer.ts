@@ -1,7 +1,7 @@
 import * as THREE from 'three';
-import type { AudioEvent, AnalysisFrame } from '../audio/AudioEngine';
+import type { FrameContext, FrameRenderer } from '../audio/FramePipeline';
 
-export class PaintFlowRenderer {
+export class PaintFlowRenderer implements FrameRenderer {
   private canvas: HTMLCanvasElement;
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
@@ -550,7 +550,8 @@ export class PaintFlowRenderer {
     this.scene.add(this.glitterSystem);
   }
 
-  update(deltaTime: number, events: AudioEvent[], analysisFrame: AnalysisFrame): void {
+  update(context: FrameContext): void {
+    const { deltaTime, frame: analysisFrame } = context;
     this.time += deltaTime;
     
     // Update audio properties
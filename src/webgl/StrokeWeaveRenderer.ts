@@ -1,7 +1,7 @@
 import * as THREE from 'three';
-import type { AudioEvent, AnalysisFrame } from '../audio/AudioEngine';
+import type { FrameContext, FrameRenderer } from '../audio/FramePipeline';
 
-export class StrokeWeaveRenderer {
+export class StrokeWeaveRenderer implements FrameRenderer {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
   private renderer: THREE.WebGLRenderer;
@@ -77,7 +77,8 @@ export class StrokeWeaveRenderer {
     this.scene.add(this.mesh);
   }
 
-  update(deltaTime: number, events: AudioEvent[], analysis: AnalysisFrame): void {
+  update(context: FrameContext): void {
+    const { deltaTime, events } = context;
     this.time += deltaTime;
     
     // Update material uniforms
@@ -0,0 +1,57 @@
+import { JellyfishPulsesRenderer } from './JellyfishPulsesRenderer';
+import { NeuralCircuitRenderer } from './NeuralCircuitRenderer';
+import { VolcanicCoreRenderer } from './VolcanicCoreRenderer';
+import { CrystalLoomRenderer } from './CrystalLoomRenderer';
+import { PaintFlowRenderer } from './PaintFlowRenderer';
+import type { FrameRenderer } from '../audio/FramePipeline';
+
+// Visual styles offered in the studio. A new renderer implements
+// FrameRenderer and adds an entry here; StudioView builds its selector and
+// the FramePipeline from this list.
+export interface RendererDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  create: (canvas: HTMLCanvasElement) => FrameRenderer;
+}
+
+export const RENDERERS: RendererDefinition[] = [
+  {
+    id: 'jellyfish',
+    name: 'Jellyfish Pulses',
+    icon: '🪼',
+    description: '深海生物発光スタイル - 有機的で流動的な表現',
+    create: canvas => new JellyfishPulsesRenderer(canvas)
+  },
+  {
+    id: 'neural',
+    name: 'Neural Circuit',
+    icon: '🧠',
+    description: '神経回路スタイル - 構造的で電気的な表現',
+    create: canvas => new NeuralCircuitRenderer(canvas)
+  },
+  {
+    id: 'volcanic',
+    name: 'Volcanic Core',
+    icon: '🌋',
+    description: '溶岩コアスタイル - 熱的で渦巻く表現',
+    create: canvas => new VolcanicCoreRenderer(canvas)
+  },
+  {
+    id: 'crystal',
+    name: 'Crystal Loom',
+    icon: '🔷',
+    description: '幾何学グリッドスタイル - 数学的で構造的な表現',
+    create: canvas => new CrystalLoomRenderer(canvas)
+  },
+  {
+    id: 'paintflow',
+    name: 'Paint Flow',
+    icon: '🎨',
+    description: 'ラメ入り絵の具スタイル - 上下から交わる流動的な表現',
+    create: canvas => new PaintFlowRenderer(canvas)
+  }
+];
+
+export const DEFAULT_RENDERER_ID = 'paintflow';